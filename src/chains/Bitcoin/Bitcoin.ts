@@ -1,58 +1,167 @@
 import axios from 'axios'
 import * as bitcoin from 'bitcoinjs-lib'
 
-import { fetchBTCFeeProperties, parseBTCNetwork } from './utils'
 import {
+  encodeBIP137Signature,
+  encodeBIP322Signature,
+  getBIP322SigHash,
+  hashBIP137Message,
+  verifyBTCMessage,
+} from './message'
+import {
+  createBTCTimelockScript,
+  decodeBTCTimelockScript,
+  getBTCTimelockUnit,
+  getBTCTimelockWitness,
+} from './timelock'
+import {
+  encodeBTCWitness,
+  fetchBTCFeeProperties,
+  fetchBTCFeeRate,
+  fetchBTCTipHeight,
+  fetchBTCTipMedianTime,
+  fetchBTCUTXOs,
+  filterBTCUTXOsByConfirmations,
+  getBTCAddressType,
+  getBTCPayment,
+  isBTCOutpoint,
+  parseBTCCosignerKey,
+  parseBTCNetwork,
+} from './utils'
+import {
+  type Amount,
   type MPCPayloads,
   type ChainSignatureContracts,
   type NearNetworkIds,
+  type TransactionStatus,
+  type WaitForConfirmationOptions,
 } from '../types'
 import {
+  convertAmount,
+  createRootPublicKeyFetcher,
+  formatAmount,
+  parseAmount,
+  pollTransactionStatus,
+} from '../utils'
+import {
+  type BTCAddressType,
+  type BTCCoinSelectionReport,
+  type BTCConsolidationRequest,
   type BTCNetworkIds,
   type UTXO,
   type BTCOutput,
+  type BTCRecipient,
   type Transaction,
   type BTCAddressInfo,
+  type BTCFeeBumpRequest,
+  type BTCMessageRequest,
+  type BTCMultisigConfig,
+  type BTCMultisigTransactionRequest,
+  type BTCOutspend,
+  type BTCPSBTFormat,
+  type BTCSweepRequest,
+  type BTCTimelockConfig,
+  type BTCTimelockTransactionRequest,
   type BTCTransactionRequest,
   type BTCUnsignedTransaction,
 } from './types'
 import { toRSV, najToPubKey } from '../../signature/utils'
+import { verifyMPCSignatures } from '../../signature/verify'
 import {
   type RSVSignature,
   type MPCSignature,
   type KeyDerivationPath,
 } from '../../signature/types'
-import { ChainSignaturesContract } from '../../contracts'
+import { deriveChildPublicKey } from '../../kdf'
 import { type Chain } from '../Chain'
 
+// An input of the derived key, of the address type of the chain unless given
+type PSBTInput = Pick<UTXO, 'txid' | 'vout' | 'value'> & {
+  addressType?: BTCAddressType
+}
+
 export class Bitcoin
   implements Chain<BTCTransactionRequest, BTCUnsignedTransaction>
 {
-  private static readonly SATOSHIS_PER_BTC = 100_000_000
+  private static readonly BTC_DECIMALS = 8
+
+  // Sequence below 0xfffffffe, signalling the transaction can be replaced (BIP-125)
+  private static readonly RBF_SEQUENCE = 0xfffffffd
+
+  private static readonly DUST_THRESHOLD = 546
+
+  // Virtual sizes used to estimate the fee of transactions before they are signed
+  private static readonly TX_OVERHEAD_VSIZE = 11
+  private static readonly INPUT_VSIZE: Record<BTCAddressType, number> = {
+    p2wpkh: 68,
+    'p2sh-p2wpkh': 91,
+    p2pkh: 148,
+  }
+
+  private static readonly OUTPUT_VSIZE: Record<BTCAddressType, number> = {
+    p2wpkh: 31,
+    'p2sh-p2wpkh': 32,
+    p2pkh: 34,
+  }
+
+  // Largest DER signature with its sighash byte, used to size witnesses before they are signed
+  private static readonly MAX_SIGNATURE_SIZE = 73
+
+  // Outpoint, empty script and sequence of a P2WSH input, its witness is added to it
+  private static readonly P2WSH_INPUT_BASE_VSIZE = 41
+  private static readonly P2WSH_OUTPUT_VSIZE = 43
 
-  private readonly nearNetworkId: NearNetworkIds
   private readonly network: BTCNetworkIds
+  private readonly addressType: BTCAddressType
   private readonly providerUrl: string
-  private readonly contract: ChainSignatureContracts
+  private readonly fetchRootPublicKey: () => Promise<string>
 
   constructor(config: {
     nearNetworkId: NearNetworkIds
     network: BTCNetworkIds
+    // Defaults to p2wpkh
+    addressType?: BTCAddressType
     providerUrl: string
     contract: ChainSignatureContracts
+    rootPublicKey?: string
   }) {
-    this.nearNetworkId = config.nearNetworkId
     this.network = config.network
+    this.addressType = config.addressType ?? 'p2wpkh'
     this.providerUrl = config.providerUrl
-    this.contract = config.contract
+    this.fetchRootPublicKey = createRootPublicKeyFetcher({
+      nearNetworkId: config.nearNetworkId,
+      contract: config.contract,
+      rootPublicKey: config.rootPublicKey,
+    })
+  }
+
+  static toBTC(satoshis: bigint): string {
+    return formatAmount({ value: satoshis, decimals: Bitcoin.BTC_DECIMALS })
   }
 
-  static toBTC(satoshis: number): number {
-    return satoshis / Bitcoin.SATOSHIS_PER_BTC
+  static toSatoshi(btc: string): bigint {
+    return parseAmount(btc, Bitcoin.BTC_DECIMALS).value
   }
 
-  static toSatoshi(btc: number): number {
-    return Math.round(btc * Bitcoin.SATOSHIS_PER_BTC)
+  /**
+   * Converts a request value (satoshis as a string, or an amount) to the number used by coinselect and bitcoinjs-lib.
+   * Satoshi values are integers below the total supply, so they are exact as numbers.
+   */
+  private static toOutputValue(value: string | Amount): number {
+    if (typeof value === 'string' && !/^\d+$/.test(value)) {
+      throw new Error(`Invalid satoshi value: ${value}`)
+    }
+
+    const satoshis =
+      typeof value === 'string'
+        ? BigInt(value)
+        : convertAmount(value, Bitcoin.BTC_DECIMALS).value
+
+    if (satoshis > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(`Value of ${satoshis.toString()} satoshis is too large`)
+    }
+
+    return Number(satoshis)
   }
 
   private async fetchTransaction(
@@ -104,45 +213,196 @@ export class Bitcoin
     return rawSignature
   }
 
+  private getPayment(publicKey: Buffer): bitcoin.Payment {
+    return getBTCPayment(
+      publicKey,
+      this.addressType,
+      parseBTCNetwork(this.network)
+    )
+  }
+
+  private async fetchTransactionHex(transactionId: string): Promise<string> {
+    const { data } = await axios.get<string>(
+      `${this.providerUrl}/tx/${transactionId}/hex`
+    )
+    return data
+  }
+
+  /**
+   * Builds a PSBT input spending an UTXO of the derived address, with the data required to sign it for the address type,
+   * or an UTXO of the P2WSH script when given
+   */
+  private async createPSBTInput(
+    utxo: PSBTInput,
+    publicKey: Buffer,
+    sequence: number | undefined,
+    witnessScript?: Buffer
+  ): Promise<Parameters<bitcoin.Psbt['addInput']>[0]> {
+    const addressType = utxo.addressType ?? this.addressType
+
+    // Legacy sighashes commit to the whole previous transaction instead of the spent output
+    if (addressType === 'p2pkh' && !witnessScript) {
+      return {
+        hash: utxo.txid,
+        index: utxo.vout,
+        sequence,
+        nonWitnessUtxo: Buffer.from(
+          await this.fetchTransactionHex(utxo.txid),
+          'hex'
+        ),
+      }
+    }
+
+    const transaction = await this.fetchTransaction(utxo.txid)
+    const prevOut = transaction.outs[utxo.vout]
+
+    return {
+      hash: utxo.txid,
+      index: utxo.vout,
+      sequence,
+      witnessUtxo: {
+        script: prevOut.script,
+        value: utxo.value,
+      },
+      ...(witnessScript
+        ? { witnessScript }
+        : addressType === 'p2sh-p2wpkh' && {
+            redeemScript: getBTCPayment(
+              publicKey,
+              addressType,
+              parseBTCNetwork(this.network)
+            ).redeem?.output,
+          }),
+    }
+  }
+
+  // Largest OP_RETURN payload relayed by default by Bitcoin Core
+  private static readonly MAX_OP_RETURN_SIZE = 80
+
+  /**
+   * Gets the outputs paid by the request, the inputs and change are then picked by coin selection
+   */
+  private static getTargets(data: BTCTransactionRequest): BTCOutput[] {
+    const recipients: BTCRecipient[] =
+      data.recipients ??
+      (data.to ? [{ address: data.to, value: data.value }] : [])
+
+    if (recipients.length === 0) {
+      throw new Error('Transaction request has no recipient')
+    }
+
+    const targets: BTCOutput[] = recipients.map((recipient) => ({
+      address: recipient.address,
+      value: Bitcoin.toOutputValue(recipient.value),
+    }))
+
+    if (data.opReturn !== undefined) {
+      const payload =
+        typeof data.opReturn === 'string'
+          ? Buffer.from(data.opReturn, 'utf8')
+          : data.opReturn
+
+      if (payload.length > Bitcoin.MAX_OP_RETURN_SIZE) {
+        throw new Error(
+          `OP_RETURN data is ${payload.length} bytes, the maximum is ${Bitcoin.MAX_OP_RETURN_SIZE}`
+        )
+      }
+
+      const script = bitcoin.payments.embed({ data: [payload] }).output
+      if (!script) {
+        throw new Error('Failed to build the OP_RETURN output')
+      }
+
+      targets.push({ script, value: 0 })
+    }
+
+    return targets
+  }
+
   private async createPSBT({
     address,
     data,
+    witnessScript,
+    witnessSize,
   }: {
     address: string
     data: BTCTransactionRequest
-  }): Promise<bitcoin.Psbt> {
-    const { inputs, outputs } =
+    witnessScript?: Buffer
+    // Size of the witness spending each input of the witness script
+    witnessSize?: number
+  }): Promise<{ psbt: bitcoin.Psbt; coinSelection?: BTCCoinSelectionReport }> {
+    const coinSelection =
       data.inputs && data.outputs
-        ? data
-        : await fetchBTCFeeProperties(this.providerUrl, address, [
-            {
-              address: data.to,
-              value: parseFloat(data.value),
-            },
-          ])
+        ? undefined
+        : await fetchBTCFeeProperties(
+            this.providerUrl,
+            address,
+            Bitcoin.getTargets(data),
+            data.coinSelection,
+            witnessSize === undefined
+              ? {
+                  overhead: Bitcoin.TX_OVERHEAD_VSIZE,
+                  input: Bitcoin.INPUT_VSIZE[this.addressType],
+                  change: Bitcoin.OUTPUT_VSIZE[this.addressType],
+                }
+              : {
+                  overhead: Bitcoin.TX_OVERHEAD_VSIZE,
+                  // Witness bytes weigh a quarter, with a byte of margin for the rounding of the marker and flag
+                  input:
+                    Bitcoin.P2WSH_INPUT_BASE_VSIZE +
+                    Math.ceil((witnessSize + 1) / 4),
+                  change: Bitcoin.P2WSH_OUTPUT_VSIZE,
+                }
+          )
+    const { inputs, outputs } = coinSelection ?? data
 
-    const psbt = new bitcoin.Psbt({ network: parseBTCNetwork(this.network) })
+    if (!inputs || !outputs) {
+      throw new Error('Inputs and outputs are required')
+    }
 
-    // Since the sender address is always P2WPKH, we can assume all inputs are P2WPKH
-    await Promise.all(
-      inputs.map(async (utxo: UTXO) => {
-        const transaction = await this.fetchTransaction(utxo.txid)
-        const prevOut = transaction.outs[utxo.vout]
-        const value = utxo.value
-
-        // Prepare the input as P2WPKH
-        const inputOptions = {
-          hash: utxo.txid,
-          index: utxo.vout,
-          witnessUtxo: {
-            script: prevOut.script,
-            value,
-          },
-        }
+    const psbt = await this.buildPSBT({
+      inputs,
+      outputs,
+      publicKey: data.publicKey,
+      changeAddress: address,
+      rbf: data.rbf ?? true,
+      witnessScript,
+    })
 
-        psbt.addInput(inputOptions)
-      })
+    return { psbt, coinSelection }
+  }
+
+  private async buildPSBT({
+    inputs,
+    outputs,
+    publicKey,
+    changeAddress,
+    rbf,
+    witnessScript,
+  }: {
+    inputs: PSBTInput[]
+    outputs: BTCOutput[]
+    publicKey: string
+    changeAddress: string
+    rbf: boolean
+    witnessScript?: Buffer
+  }): Promise<bitcoin.Psbt> {
+    const psbt = new bitcoin.Psbt({ network: parseBTCNetwork(this.network) })
+
+    // The inputs belong to the derived key, with the address type of the chain unless given
+    const publicKeyBuffer = Buffer.from(publicKey, 'hex')
+    const psbtInputs = await Promise.all(
+      inputs.map(
+        async (utxo) =>
+          await this.createPSBTInput(
+            utxo,
+            publicKeyBuffer,
+            rbf ? Bitcoin.RBF_SEQUENCE : undefined,
+            witnessScript
+          )
+      )
     )
+    psbt.addInputs(psbtInputs)
 
     outputs.forEach((out: BTCOutput) => {
       if ('script' in out && out.script) {
@@ -157,7 +417,7 @@ export class Bitcoin
         })
       } else {
         psbt.addOutput({
-          address,
+          address: changeAddress,
           value: out.value,
         })
       }
@@ -166,40 +426,36 @@ export class Bitcoin
     return psbt
   }
 
-  async getBalance(address: string): Promise<string> {
+  async getBalance(address: string): Promise<Amount> {
     const { data } = await axios.get<BTCAddressInfo>(
       `${this.providerUrl}/address/${address}`
     )
-    return Bitcoin.toBTC(
-      data.chain_stats.funded_txo_sum - data.chain_stats.spent_txo_sum
-    ).toString()
+    return {
+      value:
+        BigInt(data.chain_stats.funded_txo_sum) -
+        BigInt(data.chain_stats.spent_txo_sum),
+      decimals: Bitcoin.BTC_DECIMALS,
+    }
   }
 
   async deriveAddressAndPublicKey(
     signerId: string,
     path: KeyDerivationPath
   ): Promise<{ address: string; publicKey: string }> {
-    const derivedPubKeyNAJ = await ChainSignaturesContract.getDerivedPublicKey({
-      networkId: this.nearNetworkId,
-      contract: this.contract,
-      args: { path, predecessor: signerId },
+    const derivedPubKeyNAJ = deriveChildPublicKey({
+      rootPublicKey: await this.fetchRootPublicKey(),
+      predecessor: signerId,
+      path,
     })
 
-    if (!derivedPubKeyNAJ) {
-      throw new Error('Failed to get derived public key')
-    }
+    return await this.getAddressAndPublicKey(derivedPubKeyNAJ)
+  }
 
+  async getAddressAndPublicKey(
+    derivedPubKeyNAJ: string
+  ): Promise<{ address: string; publicKey: string }> {
     const derivedKey = najToPubKey(derivedPubKeyNAJ, { compress: true })
-    const publicKeyBuffer = Buffer.from(derivedKey, 'hex')
-    const network = parseBTCNetwork(this.network)
-
-    // Use P2WPKH (Bech32) address type
-    const payment = bitcoin.payments.p2wpkh({
-      pubkey: publicKeyBuffer,
-      network,
-    })
-
-    const { address } = payment
+    const { address } = this.getPayment(Buffer.from(derivedKey, 'hex'))
 
     if (!address) {
       throw new Error('Failed to generate Bitcoin address')
@@ -241,18 +497,40 @@ export class Bitcoin
     }
   }
 
+  /**
+   * @returns The unsigned transaction and its payloads, with the coin selection report when the inputs were selected from the address UTXOs
+   */
   async getMPCPayloadAndTransaction(
     transactionRequest: BTCTransactionRequest
   ): Promise<{
     transaction: BTCUnsignedTransaction
     mpcPayloads: MPCPayloads
+    coinSelection?: BTCCoinSelectionReport
   }> {
-    const publicKeyBuffer = Buffer.from(transactionRequest.publicKey, 'hex')
-    const psbt = await this.createPSBT({
+    const { psbt, coinSelection } = await this.createPSBT({
       address: transactionRequest.from,
       data: transactionRequest,
     })
 
+    return {
+      ...this.getMPCPayloads(psbt, transactionRequest.publicKey),
+      coinSelection,
+    }
+  }
+
+  /**
+   * Payload indexes follow the order of the signed inputs, every input is signed by default
+   */
+  private getMPCPayloads(
+    psbt: bitcoin.Psbt,
+    publicKey: string,
+    inputIndexes?: number[]
+  ): {
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  } {
+    const publicKeyBuffer = Buffer.from(publicKey, 'hex')
+
     // We can't double sign a PSBT, therefore we serialize the payload before to return it
     const psbtHex = psbt.toHex()
 
@@ -270,45 +548,228 @@ export class Bitcoin
       },
     })
 
-    for (let index = 0; index < psbt.inputCount; index++) {
-      psbt.signInput(index, mockKeyPair(index))
-    }
+    const signedInputs =
+      inputIndexes ?? psbt.txInputs.map((_input, index) => index)
+    signedInputs.forEach((inputIndex, index) => {
+      psbt.signInput(
+        inputIndex,
+        mockKeyPair(index),
+        Bitcoin.getSighashTypes(psbt, inputIndex)
+      )
+    })
 
     return {
       transaction: {
         psbt: bitcoin.Psbt.fromHex(psbtHex),
-        publicKey: transactionRequest.publicKey,
+        publicKey,
       },
       mpcPayloads: mpcPayloads.sort((a, b) => a.index - b.index),
     }
   }
 
-  async addSignatureAndBroadcast({
+  private static getSighashTypes(
+    psbt: bitcoin.Psbt,
+    inputIndex: number
+  ): number[] {
+    return [
+      psbt.data.inputs[inputIndex].sighashType ??
+        bitcoin.Transaction.SIGHASH_ALL,
+    ]
+  }
+
+  /**
+   * Signer returning the MPC signature of the payload, after checking it signs the sighash of the input
+   */
+  private static createMPCSigner(
+    publicKey: string,
+    mpcSignatures: MPCSignature[],
+    index: number
+  ): bitcoin.Signer {
+    return {
+      publicKey: Buffer.from(publicKey, 'hex'),
+      sign: (hash: Buffer) => {
+        // The hash is the sighash of the input, the same payload that was sent to the MPC
+        verifyMPCSignatures({
+          mpcPayloads: [{ index, payload: new Uint8Array(hash) }],
+          mpcSignatures,
+          publicKey,
+        })
+
+        return Bitcoin.parseRSVSignature(toRSV(mpcSignatures[index]))
+      },
+    }
+  }
+
+  /**
+   * Parses a BIP-174 PSBT in base64 or hex
+   */
+  parsePSBT(psbt: string): bitcoin.Psbt {
+    const network = parseBTCNetwork(this.network)
+
+    return /^([0-9a-fA-F]{2})+$/.test(psbt)
+      ? bitcoin.Psbt.fromHex(psbt, { network })
+      : bitcoin.Psbt.fromBase64(psbt, { network })
+  }
+
+  /**
+   * Indexes of the inputs spending an output of the public key that it didn't sign yet, for any address type or P2WSH script including it.
+   * The redeem script of P2SH-P2WPKH inputs is added when missing.
+   */
+  private getPSBTInputIndexes(psbt: bitcoin.Psbt, publicKey: string): number[] {
+    const publicKeyBuffer = Buffer.from(publicKey, 'hex')
+    const network = parseBTCNetwork(this.network)
+    const payments = (['p2wpkh', 'p2sh-p2wpkh', 'p2pkh'] as const).map(
+      (addressType) => getBTCPayment(publicKeyBuffer, addressType, network)
+    )
+
+    const inputIndexes: number[] = []
+    psbt.data.inputs.forEach((input, index) => {
+      const script =
+        input.witnessUtxo?.script ??
+        (input.nonWitnessUtxo &&
+          bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo).outs[
+            psbt.txInputs[index].index
+          ]?.script)
+      const payment = payments.find(
+        ({ output }) => script && output?.equals(script)
+      )
+      // Multisig inputs carry the script of the keys, which the spent output must pay to
+      const isMultisigInput =
+        !!script &&
+        !!input.witnessScript &&
+        bitcoin.payments
+          .p2wsh({ redeem: { output: input.witnessScript } })
+          .output?.equals(script) === true &&
+        bitcoin.script
+          .decompile(input.witnessScript)
+          ?.some(
+            (chunk) => Buffer.isBuffer(chunk) && chunk.equals(publicKeyBuffer)
+          ) === true
+
+      if (
+        (!payment && !isMultisigInput) ||
+        input.finalScriptSig ||
+        input.finalScriptWitness ||
+        input.partialSig?.some(({ pubkey }) => pubkey.equals(publicKeyBuffer))
+      ) {
+        return
+      }
+
+      if (payment?.redeem?.output && !input.redeemScript) {
+        psbt.updateInput(index, { redeemScript: payment.redeem.output })
+      }
+      inputIndexes.push(index)
+    })
+
+    return inputIndexes
+  }
+
+  /**
+   * Gets the MPC payloads of the inputs of an external PSBT (e.g. created by Sparrow or Bitcoin Core) spending outputs of the derived key.
+   * The other inputs are left to the other signers.
+   *
+   * @param psbt - The PSBT, in base64 or hex, a Psbt is copied and left unchanged
+   * @param publicKey - The derived public key
+   * @returns The transaction, the payloads in the order of the signed inputs and the indexes of those inputs
+   */
+  getPSBTMPCPayloads({
+    psbt,
+    publicKey,
+  }: {
+    psbt: string | bitcoin.Psbt
+    publicKey: string
+  }): {
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+    inputIndexes: number[]
+  } {
+    const parsedPSBT =
+      typeof psbt === 'string'
+        ? this.parsePSBT(psbt)
+        : bitcoin.Psbt.fromBuffer(psbt.toBuffer(), {
+            network: parseBTCNetwork(this.network),
+          })
+    const inputIndexes = this.getPSBTInputIndexes(parsedPSBT, publicKey)
+
+    if (inputIndexes.length === 0) {
+      throw new Error(`No input of the PSBT can be signed by ${publicKey}`)
+    }
+
+    return {
+      ...this.getMPCPayloads(parsedPSBT, publicKey, inputIndexes),
+      inputIndexes,
+    }
+  }
+
+  /**
+   * Adds the MPC signatures to the inputs of the derived key, without finalizing them, so the PSBT can go to the other signers
+   *
+   * @returns The partially signed PSBT, in base64 by default
+   */
+  addSignatureToPSBT({
     transaction: { psbt, publicKey },
     mpcSignatures,
+    format = 'base64',
   }: {
     transaction: BTCUnsignedTransaction
     mpcSignatures: MPCSignature[]
-  }): Promise<string> {
-    const publicKeyBuffer = Buffer.from(publicKey, 'hex')
-
-    const keyPair = (index: number): bitcoin.Signer => ({
-      publicKey: publicKeyBuffer,
-      sign: () => {
-        const mpcSignature = mpcSignatures[index]
-        return Bitcoin.parseRSVSignature(toRSV(mpcSignature))
-      },
+    format?: BTCPSBTFormat
+  }): string {
+    this.getPSBTInputIndexes(psbt, publicKey).forEach((inputIndex, index) => {
+      psbt.signInput(
+        inputIndex,
+        Bitcoin.createMPCSigner(publicKey, mpcSignatures, index),
+        Bitcoin.getSighashTypes(psbt, inputIndex)
+      )
     })
 
+    return format === 'hex' ? psbt.toHex() : psbt.toBase64()
+  }
+
+  async addSignatureAndBroadcast({
+    transaction: { psbt, publicKey },
+    mpcSignatures,
+  }: {
+    transaction: BTCUnsignedTransaction
+    mpcSignatures: MPCSignature[]
+  }): Promise<string> {
     for (let index = 0; index < psbt.inputCount; index++) {
-      psbt.signInput(index, keyPair(index))
+      psbt.signInput(
+        index,
+        Bitcoin.createMPCSigner(publicKey, mpcSignatures, index)
+      )
     }
 
-    psbt.finalizeAllInputs()
+    Bitcoin.finalizeInputs(psbt)
+
+    return await this.broadcastTransaction(psbt.extractTransaction().toHex())
+  }
+
+  /**
+   * Finalizes every input, timelock scripts aren't known to bitcoinjs so their witness is built here
+   */
+  private static finalizeInputs(psbt: bitcoin.Psbt): void {
+    psbt.data.inputs.forEach((input, index) => {
+      const witness =
+        input.witnessScript && input.partialSig?.length === 1
+          ? getBTCTimelockWitness(input.witnessScript, input.partialSig[0])
+          : undefined
+
+      if (witness) {
+        psbt.finalizeInput(index, () => ({
+          finalScriptSig: undefined,
+          finalScriptWitness: encodeBTCWitness(witness),
+        }))
+      } else {
+        psbt.finalizeInput(index)
+      }
+    })
+  }
 
+  private async broadcastTransaction(transactionHex: string): Promise<string> {
     const response = await axios.post<string>(
       `${this.providerUrl}/tx`,
-      psbt.extractTransaction().toHex()
+      transactionHex
     )
 
     if (response.status === 200 && response.data) {
@@ -317,4 +778,693 @@ export class Bitcoin
 
     throw new Error(`Failed to broadcast transaction: ${response.data}`)
   }
+
+  private getMultisigPayment({
+    publicKey,
+    cosigners,
+    threshold,
+  }: BTCMultisigConfig & { publicKey: string }): bitcoin.Payment {
+    const network = parseBTCNetwork(this.network)
+    // Sorted like sortedmulti descriptors (BIP-67), so every cosigner derives the same script
+    const pubkeys = [
+      Buffer.from(publicKey, 'hex'),
+      ...cosigners.map(parseBTCCosignerKey),
+    ].sort((a, b) => a.compare(b))
+
+    if (pubkeys.some((pubkey, i) => i > 0 && pubkey.equals(pubkeys[i - 1]))) {
+      throw new Error('Multisig public keys must be distinct')
+    }
+
+    if (threshold < 1 || threshold > pubkeys.length) {
+      throw new Error(
+        `Threshold must be between 1 and the number of keys (${pubkeys.length})`
+      )
+    }
+
+    return bitcoin.payments.p2wsh({
+      redeem: bitcoin.payments.p2ms({ m: threshold, pubkeys, network }),
+      network,
+    })
+  }
+
+  /**
+   * Gets the P2WSH address of a multisig between the derived key and the cosigners
+   */
+  getMultisigAddress(config: BTCMultisigConfig & { publicKey: string }): {
+    address: string
+    witnessScript: Buffer
+  } {
+    const { address, redeem } = this.getMultisigPayment(config)
+
+    if (!address || !redeem?.output) {
+      throw new Error('Failed to generate the multisig address')
+    }
+
+    return { address, witnessScript: redeem.output }
+  }
+
+  /**
+   * Gets the MPC payloads of a transaction spending from the multisig address (`from`), the change goes back to it.
+   * The partially signed PSBT from `addSignatureToPSBT` is then sent to the cosigners.
+   */
+  async getMultisigMPCPayloadAndTransaction(
+    request: BTCMultisigTransactionRequest
+  ): Promise<{
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+    coinSelection?: BTCCoinSelectionReport
+  }> {
+    const { address, witnessScript } = this.getMultisigAddress(request)
+
+    if (address !== request.from) {
+      throw new Error(
+        `${request.from} is not the multisig address of the keys, expected ${address}`
+      )
+    }
+
+    const { psbt, coinSelection } = await this.createPSBT({
+      address,
+      data: request,
+      witnessScript,
+      // OP_CHECKMULTISIG pops an extra empty item before the signatures
+      witnessSize: encodeBTCWitness([
+        Buffer.alloc(0),
+        ...Array.from({ length: request.threshold }, () =>
+          Buffer.alloc(Bitcoin.MAX_SIGNATURE_SIZE)
+        ),
+        witnessScript,
+      ]).length,
+    })
+
+    return {
+      ...this.getMPCPayloads(psbt, request.publicKey),
+      coinSelection,
+    }
+  }
+
+  /**
+   * Gets the P2WSH address locking funds to the timelocked key until the lock expires, and to the recovery key at any time
+   */
+  getTimelockAddress(config: BTCTimelockConfig): {
+    address: string
+    witnessScript: Buffer
+  } {
+    const network = parseBTCNetwork(this.network)
+    const witnessScript = createBTCTimelockScript({
+      type: config.type,
+      lock: config.lock,
+      unit: config.unit,
+      timelockedKey: parseBTCCosignerKey(config.timelockedKey),
+      recoveryKey: config.recoveryKey
+        ? parseBTCCosignerKey(config.recoveryKey)
+        : undefined,
+    })
+    const { address } = bitcoin.payments.p2wsh({
+      redeem: { output: witnessScript },
+      network,
+    })
+
+    if (!address) {
+      throw new Error('Failed to generate the timelock address')
+    }
+
+    return { address, witnessScript }
+  }
+
+  /**
+   * Throws if an absolute lock didn't expire, a transaction with a later locktime is rejected as non-final
+   */
+  private async checkTimelockExpired(lock: number): Promise<void> {
+    if (getBTCTimelockUnit(lock) === 'height') {
+      // The locktime must be below the height of the next block
+      const tipHeight = await fetchBTCTipHeight(this.providerUrl)
+      if (tipHeight < lock) {
+        throw new Error(
+          `The timelock expires at block ${lock}, the tip is at block ${tipHeight}`
+        )
+      }
+    } else {
+      const medianTime = await fetchBTCTipMedianTime(this.providerUrl)
+      if (medianTime <= lock) {
+        throw new Error(
+          `The timelock expires at time ${lock}, the median time of the tip is ${medianTime}`
+        )
+      }
+    }
+  }
+
+  /**
+   * Gets the MPC payloads of a transaction spending from the timelock address (`from`), the change goes back to it.
+   * Spending with the timelocked key sets the locktime (absolute) or the input sequences (relative) the script checks,
+   * so it throws before an absolute lock expired and coin selection only spends the UTXOs old enough for a relative lock.
+   */
+  async getTimelockMPCPayloadAndTransaction(
+    request: BTCTimelockTransactionRequest
+  ): Promise<{
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+    coinSelection?: BTCCoinSelectionReport
+  }> {
+    const { address, witnessScript } = this.getTimelockAddress(request)
+
+    if (address !== request.from) {
+      throw new Error(
+        `${request.from} is not the timelock address of the keys, expected ${address}`
+      )
+    }
+
+    const timelock = decodeBTCTimelockScript(witnessScript)
+    const publicKey = Buffer.from(request.publicKey, 'hex')
+    // Witness of the branch spent by the key
+    const witness = getBTCTimelockWitness(witnessScript, {
+      pubkey: publicKey,
+      signature: Buffer.alloc(Bitcoin.MAX_SIGNATURE_SIZE),
+    })
+    if (!timelock || !witness) {
+      throw new Error(`${request.publicKey} is not a key of the timelock`)
+    }
+
+    const spendsTimelock = timelock.timelockedKey.equals(publicKey)
+    if (spendsTimelock && request.type === 'absolute') {
+      await this.checkTimelockExpired(request.lock)
+    }
+
+    const { psbt, coinSelection } = await this.createPSBT({
+      address,
+      // Relative timelocks only expire for UTXOs confirmed `lock` blocks ago
+      data:
+        spendsTimelock && request.type === 'relative'
+          ? {
+              ...request,
+              coinSelection: {
+                ...request.coinSelection,
+                minConfirmations: Math.max(
+                  request.lock,
+                  request.coinSelection?.minConfirmations ?? 1
+                ),
+              },
+            }
+          : request,
+      witnessScript,
+      witnessSize: encodeBTCWitness(witness).length,
+    })
+
+    if (spendsTimelock) {
+      if (request.type === 'absolute') {
+        psbt.setLocktime(request.lock)
+      }
+
+      psbt.txInputs.forEach((input, index) => {
+        // The locktime is ignored when every sequence is final, relative locks always signal RBF (BIP-125)
+        if (request.type === 'relative') {
+          psbt.setInputSequence(index, request.lock)
+        } else if (
+          input.sequence === undefined ||
+          input.sequence === 0xffffffff
+        ) {
+          psbt.setInputSequence(index, 0xfffffffe)
+        }
+      })
+    }
+
+    return {
+      ...this.getMPCPayloads(psbt, request.publicKey),
+      coinSelection,
+    }
+  }
+
+  /**
+   * Combines PSBTs signed by the MPC and the cosigners, finalizes the inputs and broadcasts the transaction
+   *
+   * @param psbts - The partially signed PSBTs, in base64 or hex
+   * @returns The transaction id
+   */
+  async combineAndBroadcastPSBTs(
+    psbts: Array<string | bitcoin.Psbt>
+  ): Promise<string> {
+    const [psbt, ...others] = psbts.map((psbt) =>
+      typeof psbt === 'string' ? this.parsePSBT(psbt) : psbt
+    )
+
+    if (!psbt) {
+      throw new Error('At least one PSBT is required')
+    }
+
+    if (others.length > 0) {
+      psbt.combine(...others)
+    }
+    Bitcoin.finalizeInputs(psbt)
+
+    return await this.broadcastTransaction(psbt.extractTransaction().toHex())
+  }
+
+  private async fetchUnconfirmedTransaction(
+    transactionId: string
+  ): Promise<Transaction> {
+    const transaction = await this.fetchTransactionInfo(transactionId)
+
+    if (!transaction) {
+      throw new Error(`Transaction ${transactionId} not found`)
+    }
+
+    if (transaction.status.confirmed) {
+      throw new Error(`Transaction ${transactionId} is already confirmed`)
+    }
+
+    return transaction
+  }
+
+  private static findChangeOutput(
+    transaction: Transaction,
+    changeAddress: string
+  ): number {
+    const changeIndex = transaction.vout.findIndex(
+      (vout) => vout.scriptpubkey_address === changeAddress
+    )
+
+    if (changeIndex === -1) {
+      throw new Error(
+        `Transaction ${transaction.txid} has no change output to ${changeAddress}`
+      )
+    }
+
+    return changeIndex
+  }
+
+  /**
+   * Gets the MPC payloads of a replacement (BIP-125) for an unconfirmed transaction.
+   * The inputs and outputs are kept, the change output pays the difference with the new fee.
+   * The original must signal replaceability, with an input sequence below 0xfffffffe.
+   */
+  async getReplacementMPCPayloadAndTransaction(
+    request: BTCFeeBumpRequest
+  ): Promise<{
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const original = await this.fetchUnconfirmedTransaction(
+      request.transactionId
+    )
+    const changeIndex = Bitcoin.findChangeOutput(original, request.from)
+
+    if (!original.vin.some((vin) => vin.sequence < 0xfffffffe)) {
+      throw new Error(
+        `Transaction ${request.transactionId} doesn't signal replaceability (BIP-125), bump its fee with CPFP instead`
+      )
+    }
+
+    const network = parseBTCNetwork(this.network)
+    const inputs = original.vin.map((vin) => ({
+      txid: vin.txid,
+      vout: vin.vout,
+      value: vin.prevout.value,
+      addressType: getBTCAddressType(vin.prevout.scriptpubkey_address, network),
+    }))
+
+    // The replacement spends the same inputs, each sized from the type of its prevout, and must also pay for its own relay
+    // on top of the original fee
+    const vsize =
+      Bitcoin.TX_OVERHEAD_VSIZE +
+      inputs.reduce(
+        (sum, input) => sum + Bitcoin.INPUT_VSIZE[input.addressType],
+        0
+      ) +
+      original.vout.reduce(
+        // Value (8 bytes), script length (1 byte) and script
+        (sum, vout) => sum + 9 + vout.scriptpubkey.length / 2,
+        0
+      )
+    const fee = Math.max(
+      Math.ceil(request.feeRate * vsize),
+      original.fee + vsize
+    )
+    const change = original.vout[changeIndex].value - (fee - original.fee)
+
+    if (change < 0) {
+      throw new Error(
+        `Change of transaction ${request.transactionId} is too small to pay a fee of ${fee} satoshis`
+      )
+    }
+
+    const outputs: BTCOutput[] = []
+    original.vout.forEach((vout, index) => {
+      const script = Buffer.from(vout.scriptpubkey, 'hex')
+
+      if (index !== changeIndex) {
+        outputs.push({ script, value: vout.value })
+      } else if (change >= Bitcoin.DUST_THRESHOLD) {
+        // Change below the dust threshold can't be relayed, it is left to the fee
+        outputs.push({ script, value: change })
+      }
+    })
+
+    if (outputs.length === 0) {
+      throw new Error(
+        `Change of transaction ${request.transactionId} is too small to pay a fee of ${fee} satoshis`
+      )
+    }
+
+    const psbt = await this.buildPSBT({
+      inputs,
+      outputs,
+      publicKey: request.publicKey,
+      changeAddress: request.from,
+      rbf: true,
+    })
+
+    return this.getMPCPayloads(psbt, request.publicKey)
+  }
+
+  /**
+   * Gets the MPC payloads of a child spending the change of an unconfirmed parent (CPFP),
+   * paying enough fee for the parent and the child together to reach the fee rate.
+   */
+  async getCPFPMPCPayloadAndTransaction(request: BTCFeeBumpRequest): Promise<{
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const parent = await this.fetchUnconfirmedTransaction(request.transactionId)
+    const changeIndex = Bitcoin.findChangeOutput(parent, request.from)
+    const change = parent.vout[changeIndex].value
+
+    const { data: outspend } = await axios.get<BTCOutspend>(
+      `${this.providerUrl}/tx/${request.transactionId}/outspend/${changeIndex}`
+    )
+    if (outspend.spent) {
+      throw new Error(
+        `Change of transaction ${request.transactionId} is already spent by ${outspend.txid}`
+      )
+    }
+
+    const parentVsize = Math.ceil(parent.weight / 4)
+    const childVsize =
+      Bitcoin.TX_OVERHEAD_VSIZE +
+      Bitcoin.INPUT_VSIZE[this.addressType] +
+      Bitcoin.OUTPUT_VSIZE[this.addressType]
+    if (parent.fee >= request.feeRate * parentVsize) {
+      throw new Error(
+        `Transaction ${request.transactionId} already pays a fee rate of ${request.feeRate} sat/vB`
+      )
+    }
+
+    // The child has to pay at least the minimum relay fee for itself
+    const childFee = Math.max(
+      Math.ceil(request.feeRate * (parentVsize + childVsize)) - parent.fee,
+      childVsize
+    )
+    if (change - childFee < Bitcoin.DUST_THRESHOLD) {
+      throw new Error(
+        `Change of transaction ${request.transactionId} is too small to pay a fee of ${childFee} satoshis`
+      )
+    }
+
+    const psbt = await this.buildPSBT({
+      inputs: [
+        { txid: request.transactionId, vout: changeIndex, value: change },
+      ],
+      outputs: [{ address: request.from, value: change - childFee }],
+      publicKey: request.publicKey,
+      changeAddress: request.from,
+      rbf: true,
+    })
+
+    return this.getMPCPayloads(psbt, request.publicKey)
+  }
+
+  /**
+   * Gets the MPC payload of a message signed by the address, as a BIP-137 or BIP-322 simple signature
+   */
+  getMessageMPCPayload({
+    message,
+    address,
+    format = 'bip137',
+  }: BTCMessageRequest): MPCPayloads {
+    const payload =
+      format === 'bip322'
+        ? getBIP322SigHash(message, address, parseBTCNetwork(this.network))
+        : hashBIP137Message(message)
+
+    return [{ index: 0, payload: new Uint8Array(payload) }]
+  }
+
+  /**
+   * Assembles the base64 signature of a message from the MPC signature of its payload
+   */
+  formatMessageSignature({
+    address,
+    format = 'bip137',
+    mpcSignature,
+    publicKey,
+  }: Omit<BTCMessageRequest, 'message'> & {
+    mpcSignature: MPCSignature
+    publicKey: string
+  }): string {
+    const signature = Bitcoin.parseRSVSignature(toRSV(mpcSignature))
+
+    return format === 'bip322'
+      ? encodeBIP322Signature(signature, Buffer.from(publicKey, 'hex'))
+      : encodeBIP137Signature(
+          signature,
+          mpcSignature.recovery_id,
+          getBTCAddressType(address, parseBTCNetwork(this.network))
+        )
+  }
+
+  /**
+   * Verifies a base64 BIP-137 or BIP-322 simple signature of a message by the address, without any request
+   */
+  verifyMessage({
+    message,
+    address,
+    signature,
+  }: {
+    message: string | Uint8Array
+    address: string
+    signature: string
+  }): boolean {
+    return verifyBTCMessage({
+      message,
+      address,
+      signature,
+      network: parseBTCNetwork(this.network),
+    })
+  }
+
+  /**
+   * Builds a transaction spending every input to a single output, paying the fee for its exact vsize
+   */
+  private async buildSweepPSBT({
+    inputs,
+    to,
+    feeRate,
+    publicKey,
+    rbf,
+  }: {
+    inputs: UTXO[]
+    to: string
+    feeRate: number
+    publicKey: string
+    rbf: boolean
+  }): Promise<{ psbt: bitcoin.Psbt; coinSelection: BTCCoinSelectionReport }> {
+    if (inputs.length === 0) {
+      throw new Error('No UTXO to spend')
+    }
+
+    const script = bitcoin.address.toOutputScript(
+      to,
+      parseBTCNetwork(this.network)
+    )
+    // Value (8 bytes), script length (1 byte) and script
+    const vsize =
+      Bitcoin.TX_OVERHEAD_VSIZE +
+      inputs.length * Bitcoin.INPUT_VSIZE[this.addressType] +
+      9 +
+      script.length
+    const fee = Math.ceil(feeRate * vsize)
+    const value = inputs.reduce((sum, input) => sum + input.value, 0) - fee
+
+    if (value < Bitcoin.DUST_THRESHOLD) {
+      throw new Error(
+        `UTXOs are too small to pay a fee of ${fee} satoshis for ${inputs.length} inputs`
+      )
+    }
+
+    const outputs = [{ script, value }]
+    const psbt = await this.buildPSBT({
+      inputs,
+      outputs,
+      publicKey,
+      changeAddress: to,
+      rbf,
+    })
+
+    return {
+      psbt,
+      coinSelection: {
+        inputs,
+        outputs,
+        change: 0,
+        fee,
+        feeRate,
+        effectiveFeeRate: fee / vsize,
+      },
+    }
+  }
+
+  /**
+   * Gets the MPC payloads of a transaction sending all the UTXOs of the address, or the chosen ones, to a destination
+   * without change. The destination receives their value minus the fee.
+   */
+  async getSweepMPCPayloadAndTransaction(request: BTCSweepRequest): Promise<{
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+    coinSelection: BTCCoinSelectionReport
+  }> {
+    const utxos = await fetchBTCUTXOs(this.providerUrl, request.from)
+
+    // Chosen UTXOs are spent regardless of their confirmations
+    const inputs = request.utxos
+      ? request.utxos.map((outpoint) => {
+          const utxo = utxos.find((utxo) => isBTCOutpoint(utxo)(outpoint))
+          if (!utxo) {
+            throw new Error(
+              `UTXO ${outpoint.txid}:${outpoint.vout} can't be spent by ${request.from}`
+            )
+          }
+          return utxo
+        })
+      : await filterBTCUTXOsByConfirmations(
+          this.providerUrl,
+          utxos,
+          request.minConfirmations ?? 1
+        )
+
+    const { psbt, coinSelection } = await this.buildSweepPSBT({
+      inputs,
+      to: request.to,
+      feeRate:
+        request.feeRate ??
+        Math.ceil(await fetchBTCFeeRate(this.providerUrl, 6)),
+      publicKey: request.publicKey,
+      rbf: request.rbf ?? true,
+    })
+
+    return {
+      ...this.getMPCPayloads(psbt, request.publicKey),
+      coinSelection,
+    }
+  }
+
+  /**
+   * Gets the MPC payloads of a transaction merging the smallest UTXOs of the address back into it.
+   * Meant to run at a low fee rate when blocks aren't full, so spending them later costs less.
+   * UTXOs costing more to spend than their value are left aside.
+   */
+  async getConsolidationMPCPayloadAndTransaction(
+    request: BTCConsolidationRequest
+  ): Promise<{
+    transaction: BTCUnsignedTransaction
+    mpcPayloads: MPCPayloads
+    coinSelection: BTCCoinSelectionReport
+  }> {
+    // Beyond 6 blocks the recommended rate is the economy one
+    const feeRate =
+      request.feeRate ?? Math.ceil(await fetchBTCFeeRate(this.providerUrl, 144))
+    const inputCost = feeRate * Bitcoin.INPUT_VSIZE[this.addressType]
+
+    const utxos = await filterBTCUTXOsByConfirmations(
+      this.providerUrl,
+      await fetchBTCUTXOs(this.providerUrl, request.from),
+      request.minConfirmations ?? 1
+    )
+    const inputs = utxos
+      .filter(
+        (utxo) =>
+          utxo.value > inputCost &&
+          (request.maxValue === undefined || utxo.value < request.maxValue)
+      )
+      .sort((a, b) => a.value - b.value)
+      .slice(0, request.maxInputs ?? 100)
+
+    if (inputs.length < 2) {
+      throw new Error(
+        `At least 2 UTXOs are required to consolidate, ${request.from} has ${inputs.length}`
+      )
+    }
+
+    const { psbt, coinSelection } = await this.buildSweepPSBT({
+      inputs,
+      to: request.from,
+      feeRate,
+      publicKey: request.publicKey,
+      rbf: request.rbf ?? true,
+    })
+
+    return {
+      ...this.getMPCPayloads(psbt, request.publicKey),
+      coinSelection,
+    }
+  }
+
+  /**
+   * Fetches a transaction from the Esplora API, undefined if the node doesn't know it
+   */
+  private async fetchTransactionInfo(
+    transactionId: string
+  ): Promise<Transaction | undefined> {
+    try {
+      const { data } = await axios.get<Transaction>(
+        `${this.providerUrl}/tx/${transactionId}`
+      )
+      return data
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  async waitForConfirmation(
+    transactionId: string,
+    options?: WaitForConfirmationOptions
+  ): Promise<TransactionStatus> {
+    // First input of the transaction once seen, a transaction spending it instead is a replacement (RBF)
+    let firstInput: { txid: string; vout: number } | undefined
+
+    const fetchStatus = async (): Promise<TransactionStatus> => {
+      const transaction = await this.fetchTransactionInfo(transactionId)
+
+      if (!transaction) {
+        // Not seen yet, it may still be propagating to the node
+        if (!firstInput) {
+          return { status: 'pending' }
+        }
+
+        const { data: outspend } = await axios.get<BTCOutspend>(
+          `${this.providerUrl}/tx/${firstInput.txid}/outspend/${firstInput.vout}`
+        )
+
+        return outspend.spent && outspend.txid !== transactionId
+          ? { status: 'replaced', replacementHash: outspend.txid }
+          : { status: 'dropped' }
+      }
+
+      firstInput = transaction.vin[0]
+
+      if (!transaction.status.confirmed) {
+        return { status: 'pending' }
+      }
+
+      const tipHeight = await fetchBTCTipHeight(this.providerUrl)
+
+      return {
+        status: 'confirmed',
+        confirmations: tipHeight - transaction.status.block_height + 1,
+        blockNumber: transaction.status.block_height,
+      }
+    }
+
+    return await pollTransactionStatus(fetchStatus, options)
+  }
 }
@@ -0,0 +1,296 @@
+// There is no types for coinselect
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-expect-error
+import coinselect from 'coinselect'
+
+import {
+  type BTCCoinSelectionResult,
+  type BTCCoinSelectionStrategy,
+  type BTCCoinSelector,
+  type BTCOutput,
+  type BTCTransactionVsizes,
+  type UTXO,
+} from './types'
+
+// Size estimates of coinselect: P2PKH inputs and change
+const DEFAULT_VSIZES: BTCTransactionVsizes = {
+  overhead: 10,
+  input: 148,
+  change: 34,
+}
+
+// Outpoint and sequence of an input, and value and script length of an output
+const INPUT_BASE_VSIZE = 32 + 4 + 4 + 1
+const OUTPUT_BASE_VSIZE = 8 + 1
+// Outputs paying an address are sized as P2PKH outputs, as done by coinselect
+const ADDRESS_OUTPUT_VSIZE = 34
+
+const outputVsize = (
+  output: BTCOutput,
+  vsizes: BTCTransactionVsizes
+): number =>
+  'script' in output
+    ? OUTPUT_BASE_VSIZE + output.script.length
+    : 'address' in output
+      ? ADDRESS_OUTPUT_VSIZE
+      : vsizes.change
+
+const transactionVsize = (
+  inputs: UTXO[],
+  outputs: BTCOutput[],
+  vsizes: BTCTransactionVsizes
+): number =>
+  vsizes.overhead +
+  inputs.length * vsizes.input +
+  outputs.reduce((sum, output) => sum + outputVsize(output, vsizes), 0)
+
+// Bounds the branch and bound search, as done by Bitcoin Core
+const BRANCH_AND_BOUND_MAX_TRIES = 100_000
+
+const sumValues = (items: Array<{ value: number }>): number =>
+  items.reduce((sum, item) => sum + item.value, 0)
+
+const isCovered = (
+  inputs: UTXO[],
+  targets: BTCOutput[],
+  feeRate: number,
+  vsizes: BTCTransactionVsizes
+): boolean =>
+  sumValues(inputs) >=
+  sumValues(targets) + feeRate * transactionVsize(inputs, targets, vsizes)
+
+/**
+ * Adds a change output when the excess pays for it and is worth more than the cost of spending it
+ */
+const finalize = (
+  inputs: UTXO[],
+  targets: BTCOutput[],
+  feeRate: number,
+  vsizes: BTCTransactionVsizes
+): BTCCoinSelectionResult => {
+  const fee = Math.ceil(feeRate * transactionVsize(inputs, targets, vsizes))
+  const excess = sumValues(inputs) - sumValues(targets) - fee
+
+  if (excess < 0) {
+    return { fee }
+  }
+
+  const change = excess - Math.ceil(feeRate * vsizes.change)
+  const outputs =
+    change > feeRate * vsizes.input ? [...targets, { value: change }] : targets
+
+  return {
+    inputs,
+    outputs: outputs as BTCOutput[],
+    fee: sumValues(inputs) - sumValues(outputs),
+  }
+}
+
+/**
+ * Adds the candidates in order after the required inputs until the targets and fee are covered,
+ * a change output is added when worth it.
+ */
+const accumulate: BTCCoinSelector = ({
+  utxos,
+  required,
+  targets,
+  feeRate,
+  vsizes = DEFAULT_VSIZES,
+}) => {
+  const inputs = [...required]
+
+  for (const utxo of utxos) {
+    if (isCovered(inputs, targets, feeRate, vsizes)) {
+      break
+    }
+    inputs.push(utxo)
+  }
+
+  return finalize(inputs, targets, feeRate, vsizes)
+}
+
+/**
+ * Spends the largest UTXOs first, minimizing the number of inputs
+ */
+export const largestFirst: BTCCoinSelector = (params) =>
+  accumulate({
+    ...params,
+    utxos: [...params.utxos].sort((a, b) => b.value - a.value),
+  })
+
+/**
+ * Searches for a set of inputs matching the targets without change (Bitcoin Core BnB),
+ * the excess, at most the cost of creating and spending a change output, goes to the fee.
+ */
+const findChangelessSelection = ({
+  utxos,
+  required,
+  targets,
+  feeRate,
+  vsizes = DEFAULT_VSIZES,
+}: Parameters<BTCCoinSelector>[0]): BTCCoinSelectionResult | undefined => {
+  // Value the candidates must add once the required inputs paid for themselves
+  const target =
+    sumValues(targets) +
+    feeRate * transactionVsize(required, targets, vsizes) -
+    sumValues(required)
+  const costOfChange = feeRate * (vsizes.change + vsizes.input)
+
+  if (target <= 0) {
+    return undefined
+  }
+
+  const pool = utxos
+    .map((utxo) => ({
+      utxo,
+      effectiveValue: utxo.value - feeRate * vsizes.input,
+    }))
+    .filter(({ effectiveValue }) => effectiveValue > 0)
+    .sort((a, b) => b.effectiveValue - a.effectiveValue)
+
+  let available = pool.reduce(
+    (sum, { effectiveValue }) => sum + effectiveValue,
+    0
+  )
+  let value = 0
+  let index = 0
+  const selection: number[] = []
+  let best: number[] | undefined
+  let bestWaste = Infinity
+
+  for (let tries = 0; tries < BRANCH_AND_BOUND_MAX_TRIES; tries++) {
+    let backtrack = false
+
+    if (value + available < target || value > target + costOfChange) {
+      backtrack = true
+    } else if (value >= target) {
+      if (value - target < bestWaste) {
+        best = [...selection]
+        bestWaste = value - target
+      }
+      backtrack = true
+    }
+
+    if (backtrack) {
+      const last = selection.pop()
+      if (last === undefined) {
+        break
+      }
+
+      // The candidates skipped after the last included one are available again for the branch excluding it
+      for (index--; index > last; index--) {
+        available += pool[index].effectiveValue
+      }
+      value -= pool[last].effectiveValue
+    } else {
+      available -= pool[index].effectiveValue
+      value += pool[index].effectiveValue
+      selection.push(index)
+    }
+
+    index++
+  }
+
+  if (!best) {
+    return undefined
+  }
+
+  const inputs = [...required, ...best.map((i) => pool[i].utxo)]
+
+  return {
+    inputs,
+    outputs: targets,
+    fee: sumValues(inputs) - sumValues(targets),
+  }
+}
+
+/**
+ * Spends a changeless match when one exists, otherwise falls back to largest first
+ */
+export const branchAndBound: BTCCoinSelector = (params) =>
+  findChangelessSelection(params) ?? largestFirst(params)
+
+/**
+ * Links as few UTXOs as possible on chain: a changeless match first, then the smallest single UTXO covering
+ * the payment, then the largest UTXOs first
+ */
+export const privacy: BTCCoinSelector = (params) => {
+  const changeless = findChangelessSelection(params)
+  if (changeless) {
+    return changeless
+  }
+
+  const { required, targets, feeRate, vsizes = DEFAULT_VSIZES } = params
+  const single = [...params.utxos]
+    .sort((a, b) => a.value - b.value)
+    .find((utxo) => isCovered([...required, utxo], targets, feeRate, vsizes))
+
+  return single
+    ? finalize([...required, single], targets, feeRate, vsizes)
+    : largestFirst(params)
+}
+
+/**
+ * The coinselect default (blackjack then accumulative), which can't force inputs, so forced inputs fall back to largest first.
+ * coinselect only picks the inputs, the change and fee are computed from the virtual sizes.
+ */
+const coinselectDefault: BTCCoinSelector = (params) => {
+  const { utxos, required, targets, feeRate, vsizes = DEFAULT_VSIZES } = params
+  if (required.length > 0) {
+    return largestFirst(params)
+  }
+
+  // coinselect sizes an input from the length of its script
+  const sizedUTXOs = new Map<UTXO, UTXO>(
+    utxos.map((utxo) => [
+      { ...utxo, script: Buffer.alloc(vsizes.input - INPUT_BASE_VSIZE) },
+      utxo,
+    ])
+  )
+  const { inputs } = coinselect(
+    [...sizedUTXOs.keys()],
+    targets,
+    feeRate
+  ) as BTCCoinSelectionResult
+
+  if (!inputs) {
+    return largestFirst(params)
+  }
+
+  const result = finalize(
+    inputs.map((input) => sizedUTXOs.get(input) ?? input),
+    targets,
+    feeRate,
+    vsizes
+  )
+
+  return result.inputs ? result : largestFirst(params)
+}
+
+export const getCoinSelector = (
+  strategy: BTCCoinSelectionStrategy
+): BTCCoinSelector => {
+  if (typeof strategy === 'function') {
+    return strategy
+  }
+
+  switch (strategy) {
+    case 'default':
+      return coinselectDefault
+    case 'branch-and-bound':
+      return branchAndBound
+    case 'largest-first':
+      return largestFirst
+    case 'privacy':
+      return privacy
+  }
+}
+
+/**
+ * Estimates the virtual size of a transaction, the way the strategies do
+ */
+export const estimateTransactionVsize = (
+  inputs: UTXO[],
+  outputs: BTCOutput[],
+  vsizes: BTCTransactionVsizes = DEFAULT_VSIZES
+): number => transactionVsize(inputs, outputs, vsizes)
@@ -0,0 +1,248 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { SigningKey } from 'ethers'
+
+import {
+  encodeBTCVarInt,
+  encodeBTCWitness,
+  getBTCAddressType,
+  getBTCPayment,
+} from './utils'
+import { type BTCAddressType } from './types'
+
+const BIP137_PREFIX = 'Bitcoin Signed Message:\n'
+const BIP322_TAG = 'BIP0322-signed-message'
+
+// Header of a BIP-137 signature with recovery id 0 from a compressed key, for each address type
+const BIP137_HEADERS: Record<BTCAddressType, number> = {
+  p2pkh: 31,
+  'p2sh-p2wpkh': 35,
+  p2wpkh: 39,
+}
+
+const toBuffer = (message: string | Uint8Array): Buffer =>
+  typeof message === 'string'
+    ? Buffer.from(message, 'utf8')
+    : Buffer.from(message)
+
+const decodeWitness = (buffer: Buffer): Buffer[] => {
+  let offset = 0
+  const readVarInt = (): number => {
+    const first = buffer.readUInt8(offset)
+    offset += first < 0xfd ? 1 : first === 0xfd ? 3 : 5
+    return first < 0xfd
+      ? first
+      : first === 0xfd
+        ? buffer.readUInt16LE(offset - 2)
+        : buffer.readUInt32LE(offset - 4)
+  }
+
+  const witness: Buffer[] = []
+  for (let count = readVarInt(); count > 0; count--) {
+    const length = readVarInt()
+    if (offset + length > buffer.length) {
+      throw new Error('Invalid witness')
+    }
+    witness.push(buffer.subarray(offset, offset + length))
+    offset += length
+  }
+
+  if (offset !== buffer.length) {
+    throw new Error('Invalid witness')
+  }
+
+  return witness
+}
+
+const recoverPublicKey = (
+  hash: Buffer,
+  signature: Buffer,
+  recoveryId: number,
+  compressed: boolean
+): Buffer => {
+  const publicKey = SigningKey.recoverPublicKey(hash, {
+    r: `0x${signature.subarray(0, 32).toString('hex')}`,
+    s: `0x${signature.subarray(32, 64).toString('hex')}`,
+    v: 27 + recoveryId,
+  })
+
+  return Buffer.from(
+    SigningKey.computePublicKey(publicKey, compressed).substring(2),
+    'hex'
+  )
+}
+
+/**
+ * Hashes a message the way "Bitcoin Signed Message" (BIP-137) signatures commit to it
+ */
+export const hashBIP137Message = (message: string | Uint8Array): Buffer => {
+  const prefix = Buffer.from(BIP137_PREFIX, 'utf8')
+  const messageBuffer = toBuffer(message)
+
+  return bitcoin.crypto.hash256(
+    Buffer.concat([
+      encodeBTCVarInt(prefix.length),
+      prefix,
+      encodeBTCVarInt(messageBuffer.length),
+      messageBuffer,
+    ])
+  )
+}
+
+/**
+ * Computes the sighash of the BIP-322 virtual transaction spending the message commitment from a P2WPKH address
+ */
+export const getBIP322SigHash = (
+  message: string | Uint8Array,
+  address: string,
+  network: bitcoin.networks.Network
+): Buffer => {
+  if (getBTCAddressType(address, network) !== 'p2wpkh') {
+    throw new Error(
+      `BIP-322 simple signatures are only supported for P2WPKH addresses, got ${address}`
+    )
+  }
+
+  const tag = bitcoin.crypto.sha256(Buffer.from(BIP322_TAG, 'utf8'))
+  const messageHash = bitcoin.crypto.sha256(
+    Buffer.concat([tag, tag, toBuffer(message)])
+  )
+  const outputScript = bitcoin.address.toOutputScript(address, network)
+
+  const toSpend = new bitcoin.Transaction()
+  toSpend.version = 0
+  toSpend.addInput(
+    Buffer.alloc(32),
+    0xffffffff,
+    0,
+    bitcoin.script.compile([bitcoin.opcodes.OP_0, messageHash])
+  )
+  toSpend.addOutput(outputScript, 0)
+
+  const toSign = new bitcoin.Transaction()
+  toSign.version = 0
+  toSign.addInput(toSpend.getHash(), 0, 0)
+  toSign.addOutput(bitcoin.script.compile([bitcoin.opcodes.OP_RETURN]), 0)
+
+  // P2WPKH inputs are signed with the P2PKH script of the key hash
+  const scriptCode = bitcoin.payments.p2pkh({
+    hash: outputScript.subarray(2),
+  }).output
+
+  if (!scriptCode) {
+    throw new Error('Failed to build the P2WPKH script code')
+  }
+
+  return toSign.hashForWitnessV0(
+    0,
+    scriptCode,
+    0,
+    bitcoin.Transaction.SIGHASH_ALL
+  )
+}
+
+/**
+ * Encodes a 64 bytes r || s signature as a base64 BIP-137 signature for the address type
+ */
+export const encodeBIP137Signature = (
+  signature: Buffer,
+  recoveryId: number,
+  addressType: BTCAddressType
+): string =>
+  Buffer.concat([
+    Buffer.from([BIP137_HEADERS[addressType] + recoveryId]),
+    signature,
+  ]).toString('base64')
+
+/**
+ * Encodes a 64 bytes r || s signature as a base64 BIP-322 simple signature, the witness spending the P2WPKH output
+ */
+export const encodeBIP322Signature = (
+  signature: Buffer,
+  publicKey: Buffer
+): string =>
+  encodeBTCWitness([
+    bitcoin.script.signature.encode(signature, bitcoin.Transaction.SIGHASH_ALL),
+    publicKey,
+  ]).toString('base64')
+
+const verifyBIP137Signature = (
+  message: string | Uint8Array,
+  address: string,
+  signature: Buffer,
+  network: bitcoin.networks.Network
+): boolean => {
+  const header = signature[0]
+  // 27 to 30 are uncompressed P2PKH keys, then each address type has 4 headers for the recovery ids
+  const addressType =
+    header < BIP137_HEADERS['p2sh-p2wpkh']
+      ? 'p2pkh'
+      : header < BIP137_HEADERS.p2wpkh
+        ? 'p2sh-p2wpkh'
+        : 'p2wpkh'
+
+  const publicKey = recoverPublicKey(
+    hashBIP137Message(message),
+    signature.subarray(1),
+    (header - 27) % 4,
+    header >= BIP137_HEADERS.p2pkh
+  )
+
+  return getBTCPayment(publicKey, addressType, network).address === address
+}
+
+const verifyBIP322Signature = (
+  message: string | Uint8Array,
+  address: string,
+  signature: Buffer,
+  network: bitcoin.networks.Network
+): boolean => {
+  const witness = decodeWitness(signature)
+  if (witness.length !== 2) {
+    return false
+  }
+
+  const [encodedSignature, publicKey] = witness
+  const { signature: rawSignature, hashType } =
+    bitcoin.script.signature.decode(encodedSignature)
+
+  if (
+    hashType !== bitcoin.Transaction.SIGHASH_ALL ||
+    getBTCPayment(publicKey, 'p2wpkh', network).address !== address
+  ) {
+    return false
+  }
+
+  const sigHash = getBIP322SigHash(message, address, network)
+
+  return [0, 1].some((recoveryId) =>
+    recoverPublicKey(sigHash, rawSignature, recoveryId, true).equals(publicKey)
+  )
+}
+
+/**
+ * Verifies a base64 BIP-137 or BIP-322 simple signature of a message by the address
+ */
+export const verifyBTCMessage = ({
+  message,
+  address,
+  signature,
+  network,
+}: {
+  message: string | Uint8Array
+  address: string
+  signature: string
+  network: bitcoin.networks.Network
+}): boolean => {
+  const signatureBuffer = Buffer.from(signature, 'base64')
+
+  try {
+    // BIP-137 signatures are a header byte followed by r and s
+    return signatureBuffer.length === 65 &&
+      signatureBuffer[0] >= 27 &&
+      signatureBuffer[0] <= 42
+      ? verifyBIP137Signature(message, address, signatureBuffer, network)
+      : verifyBIP322Signature(message, address, signatureBuffer, network)
+  } catch (error) {
+    return false
+  }
+}
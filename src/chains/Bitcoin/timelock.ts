@@ -0,0 +1,144 @@
+import * as bitcoin from 'bitcoinjs-lib'
+
+import { type BTCTimelockType, type BTCTimelockUnit } from './types'
+
+// Relative timelocks in blocks are the 16 low bits of the sequence (BIP-68)
+const MAX_RELATIVE_LOCK = 0xffff
+// Absolute locks from this value are UNIX timestamps instead of block heights
+const LOCKTIME_THRESHOLD = 500000000
+
+interface Timelock {
+  type: BTCTimelockType
+  lock: number
+  timelockedKey: Buffer
+  recoveryKey?: Buffer
+}
+
+/**
+ * Gets the unit of an absolute lock, compared to the locktime of the spending transaction by OP_CHECKLOCKTIMEVERIFY
+ */
+export const getBTCTimelockUnit = (lock: number): BTCTimelockUnit =>
+  lock < LOCKTIME_THRESHOLD ? 'height' : 'timestamp'
+
+/**
+ * Compiles the witness script of a timelock: the timelocked key spends once the lock expired,
+ * the recovery key spends at any time through the ELSE branch.
+ *
+ * `OP_IF <lock> OP_CHECKLOCKTIMEVERIFY|OP_CHECKSEQUENCEVERIFY OP_DROP <timelocked key> OP_CHECKSIG OP_ELSE <recovery key> OP_CHECKSIG OP_ENDIF`
+ */
+export const createBTCTimelockScript = ({
+  type,
+  lock,
+  timelockedKey,
+  recoveryKey,
+  unit,
+}: Timelock & { unit?: BTCTimelockUnit }): Buffer => {
+  const maxLock = type === 'absolute' ? 0xffffffff : MAX_RELATIVE_LOCK
+  if (!Number.isInteger(lock) || lock < 1 || lock > maxLock) {
+    throw new Error(`Invalid ${type} timelock ${lock}, maximum is ${maxLock}`)
+  }
+
+  if (type === 'relative' && unit === 'timestamp') {
+    throw new Error('Relative timelocks are only supported in blocks')
+  } else if (type === 'absolute' && unit && unit !== getBTCTimelockUnit(lock)) {
+    throw new Error(
+      unit === 'height'
+        ? `Invalid block height ${lock}, locks from ${LOCKTIME_THRESHOLD} are timestamps`
+        : `Invalid timestamp ${lock}, locks below ${LOCKTIME_THRESHOLD} are block heights`
+    )
+  }
+
+  const timelock = [
+    bitcoin.script.number.encode(lock),
+    type === 'absolute'
+      ? bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY
+      : bitcoin.opcodes.OP_CHECKSEQUENCEVERIFY,
+    bitcoin.opcodes.OP_DROP,
+    timelockedKey,
+    bitcoin.opcodes.OP_CHECKSIG,
+  ]
+
+  return bitcoin.script.compile(
+    recoveryKey
+      ? [
+          bitcoin.opcodes.OP_IF,
+          ...timelock,
+          bitcoin.opcodes.OP_ELSE,
+          recoveryKey,
+          bitcoin.opcodes.OP_CHECKSIG,
+          bitcoin.opcodes.OP_ENDIF,
+        ]
+      : timelock
+  )
+}
+
+/**
+ * Decodes a script created by createBTCTimelockScript, undefined for any other script
+ */
+export const decodeBTCTimelockScript = (
+  script: Buffer
+): Timelock | undefined => {
+  const chunks = bitcoin.script.decompile(script)
+  if (!chunks) {
+    return undefined
+  }
+
+  const recoveryKey = chunks[7]
+  const hasRecovery =
+    chunks.length === 10 &&
+    chunks[0] === bitcoin.opcodes.OP_IF &&
+    chunks[6] === bitcoin.opcodes.OP_ELSE &&
+    Buffer.isBuffer(recoveryKey) &&
+    chunks[8] === bitcoin.opcodes.OP_CHECKSIG &&
+    chunks[9] === bitcoin.opcodes.OP_ENDIF
+
+  const timelock = hasRecovery ? chunks.slice(1, 6) : chunks
+  if (timelock.length !== 5) {
+    return undefined
+  }
+
+  const [lock, verify, drop, timelockedKey, checksig] = timelock
+  if (
+    (verify !== bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY &&
+      verify !== bitcoin.opcodes.OP_CHECKSEQUENCEVERIFY) ||
+    drop !== bitcoin.opcodes.OP_DROP ||
+    !Buffer.isBuffer(timelockedKey) ||
+    checksig !== bitcoin.opcodes.OP_CHECKSIG
+  ) {
+    return undefined
+  }
+
+  return {
+    type:
+      verify === bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY
+        ? 'absolute'
+        : 'relative',
+    // Locks from 1 to 16 are compiled to OP_1 to OP_16
+    lock: Buffer.isBuffer(lock)
+      ? bitcoin.script.number.decode(lock, 5)
+      : lock - bitcoin.opcodes.OP_1 + 1,
+    timelockedKey,
+    recoveryKey: hasRecovery ? recoveryKey : undefined,
+  }
+}
+
+/**
+ * Builds the witness spending a timelock script with the signature of one of its keys, undefined if the key isn't part of it
+ */
+export const getBTCTimelockWitness = (
+  script: Buffer,
+  { pubkey, signature }: { pubkey: Buffer; signature: Buffer }
+): Buffer[] | undefined => {
+  const timelock = decodeBTCTimelockScript(script)
+
+  if (timelock?.timelockedKey.equals(pubkey)) {
+    // OP_IF requires exactly 0x01 to take the timelocked branch (MINIMALIF)
+    return timelock.recoveryKey
+      ? [signature, Buffer.from([1]), script]
+      : [signature, script]
+  } else if (timelock?.recoveryKey?.equals(pubkey)) {
+    return [signature, Buffer.alloc(0), script]
+  }
+
+  return undefined
+}
@@ -1,5 +1,9 @@
 import { type KeyDerivationPath } from '../../signature'
-import { type ChainProvider, type NearAuthentication } from '../types'
+import {
+  type Amount,
+  type ChainProvider,
+  type NearAuthentication,
+} from '../types'
 import type * as bitcoin from 'bitcoinjs-lib'
 
 export interface Transaction {
@@ -63,23 +67,223 @@ export type BTCOutput =
       value: number
     }
 
+export interface BTCOutpoint {
+  txid: string
+  vout: number
+}
+
+/**
+ * Inputs and outputs picked by coin selection, without inputs when the UTXOs can't pay for the targets.
+ * The change is an output with only a value, sent back to the sender.
+ */
+export interface BTCCoinSelectionResult {
+  inputs?: UTXO[]
+  outputs?: BTCOutput[]
+  fee: number
+}
+
+/**
+ * Virtual sizes in vB of the transaction overhead, of an input of the sender and of its change output
+ */
+export interface BTCTransactionVsizes {
+  overhead: number
+  input: number
+  change: number
+}
+
+/**
+ * Picks inputs among `utxos` to pay the targets at the fee rate (sat/vB), the `required` inputs must all be spent.
+ * Transactions are sized with `vsizes`, P2PKH inputs and change by default.
+ */
+export type BTCCoinSelector = (params: {
+  utxos: UTXO[]
+  required: UTXO[]
+  targets: BTCOutput[]
+  feeRate: number
+  vsizes?: BTCTransactionVsizes
+}) => BTCCoinSelectionResult
+
+/**
+ * default: coinselect (changeless match, then accumulative), branch-and-bound: changeless match (Bitcoin Core BnB) then largest first,
+ * largest-first: fewest inputs, privacy: fewest UTXOs linked together, or a custom selector
+ */
+export type BTCCoinSelectionStrategy =
+  | 'default'
+  | 'branch-and-bound'
+  | 'largest-first'
+  | 'privacy'
+  | BTCCoinSelector
+
+export interface BTCCoinSelectionOptions {
+  /** Defaults to 'default' */
+  strategy?: BTCCoinSelectionStrategy
+  /** Fee rate in sat/vB, defaults to the recommended rate for the confirmation target */
+  feeRate?: number
+  /** Number of blocks to get confirmed in, used to pick the recommended fee rate, defaults to 6 */
+  confirmationTarget?: number
+  /** Confirmations required for an UTXO to be spent, defaults to 1 */
+  minConfirmations?: number
+  /** UTXOs that must be spent, regardless of their confirmations */
+  include?: BTCOutpoint[]
+  /** UTXOs that must not be spent */
+  exclude?: BTCOutpoint[]
+}
+
+export interface BTCCoinSelectionReport {
+  inputs: UTXO[]
+  outputs: BTCOutput[]
+  /** Change sent back to the sender in satoshis, 0 without change output */
+  change: number
+  fee: number
+  /** The fee rate requested from coin selection, in sat/vB */
+  feeRate: number
+  /** The fee rate actually paid, in sat/vB, based on the estimated transaction size */
+  effectiveFeeRate: number
+}
+
 interface BtcInputsAndOutputs {
   inputs: UTXO[]
   outputs: BTCOutput[]
 }
 
+export interface BTCRecipient {
+  address: string
+  /** Satoshis as a string, or an amount */
+  value: string | Amount
+}
+
 export type BTCTransactionRequest = {
   publicKey: string
   from: string
-  to: string
-  value: string
+  /** Signal replace-by-fee (BIP-125) on the inputs, defaults to true */
+  rbf?: boolean
+  /** Data embedded in an OP_RETURN output, strings are UTF-8 encoded. Limited to 80 bytes to be relayed */
+  opReturn?: string | Buffer
+  /** Ignored when the inputs and outputs are given */
+  coinSelection?: BTCCoinSelectionOptions
 } & (
-  | BtcInputsAndOutputs
   | {
-      inputs?: never
-      outputs?: never
+      to: string
+      /** Satoshis as a string, or an amount */
+      value: string | Amount
+      recipients?: never
+    }
+  | {
+      /** Several payments in the same transaction, e.g. batch payouts */
+      recipients: BTCRecipient[]
+      to?: never
+      value?: never
     }
-)
+) &
+  (
+    | BtcInputsAndOutputs
+    | {
+        inputs?: never
+        outputs?: never
+      }
+  )
+
+export interface BTCFeeBumpRequest {
+  /** The unconfirmed transaction to bump */
+  transactionId: string
+  /** The target fee rate in sat/vB */
+  feeRate: number
+  /** The derived address that sent the transaction, receiving the change */
+  from: string
+  publicKey: string
+}
+
+export interface BTCSweepRequest {
+  publicKey: string
+  /** The derived address to empty */
+  from: string
+  /** Receives the value of the UTXOs minus the fee */
+  to: string
+  /** The UTXOs to spend, all the UTXOs with enough confirmations by default */
+  utxos?: BTCOutpoint[]
+  /** Fee rate in sat/vB, defaults to the recommended rate to get confirmed in 6 blocks */
+  feeRate?: number
+  /** Confirmations required for an UTXO to be swept, defaults to 1 */
+  minConfirmations?: number
+  rbf?: boolean
+}
+
+export interface BTCConsolidationRequest {
+  publicKey: string
+  /** The derived address whose UTXOs are merged back into it */
+  from: string
+  /** Fee rate in sat/vB, defaults to the recommended economy rate */
+  feeRate?: number
+  /** Only UTXOs below this value in satoshis are merged */
+  maxValue?: number
+  /** Maximum number of UTXOs merged, the smallest first, defaults to 100 */
+  maxInputs?: number
+  /** Confirmations required for an UTXO to be merged, defaults to 1 */
+  minConfirmations?: number
+  rbf?: boolean
+}
+
+/**
+ * bip137: "Bitcoin Signed Message" signature, bip322: BIP-322 simple signature, for P2WPKH addresses only
+ */
+export type BTCMessageSignatureFormat = 'bip137' | 'bip322'
+
+export interface BTCMessageRequest {
+  message: string | Uint8Array
+  /** The derived address signing the message */
+  address: string
+  /** Defaults to bip137 */
+  format?: BTCMessageSignatureFormat
+}
+
+/**
+ * A public key in hex, or an extended public key (xpub/tpub) with the path of the child key
+ */
+export type BTCCosignerKey = string | { xpub: string; path?: string }
+
+export interface BTCMultisigConfig {
+  /** The keys of the other cosigners, the derived key is added to them */
+  cosigners: BTCCosignerKey[]
+  /** Number of signatures required to spend */
+  threshold: number
+}
+
+/**
+ * Spends from the P2WSH multisig address given as `from`
+ */
+export type BTCMultisigTransactionRequest = BTCTransactionRequest &
+  BTCMultisigConfig
+
+/**
+ * absolute: OP_CHECKLOCKTIMEVERIFY, spendable from a block height or time, relative: OP_CHECKSEQUENCEVERIFY,
+ * spendable a number of blocks after the funding transaction confirmed
+ */
+export type BTCTimelockType = 'absolute' | 'relative'
+
+/**
+ * Absolute locks below 500000000 are block heights, the others UNIX timestamps
+ */
+export type BTCTimelockUnit = 'height' | 'timestamp'
+
+export interface BTCTimelockConfig {
+  type: BTCTimelockType
+  /** Block height, or UNIX timestamp from 500000000, for absolute timelocks, number of blocks for relative ones */
+  lock: number
+  /** Unit of an absolute lock, the lock is checked against it when given */
+  unit?: BTCTimelockUnit
+  /** Key spending once the timelock expired, e.g. the heir of an inheritance */
+  timelockedKey: BTCCosignerKey
+  /** Key spending at any time, e.g. the cold key of a vault */
+  recoveryKey?: BTCCosignerKey
+}
+
+/**
+ * Spends from the timelock address given as `from`, with the timelocked or recovery key matching `publicKey`
+ */
+export type BTCTimelockTransactionRequest = BTCTransactionRequest &
+  BTCTimelockConfig
+
+export type BTCPSBTFormat = 'base64' | 'hex'
 
 export interface BTCUnsignedTransaction {
   psbt: bitcoin.Psbt
@@ -88,6 +292,7 @@ export interface BTCUnsignedTransaction {
 
 export type BTCChainConfigWithProviders = ChainProvider & {
   network: BTCNetworkIds
+  addressType?: BTCAddressType
 }
 
 export interface BitcoinRequest {
@@ -100,6 +305,11 @@ export interface BitcoinRequest {
 
 export type BTCNetworkIds = 'mainnet' | 'testnet' | 'regtest'
 
+/**
+ * p2wpkh: Native SegWit (bc1q...), p2sh-p2wpkh: Nested SegWit (3...), p2pkh: Legacy (1...)
+ */
+export type BTCAddressType = 'p2wpkh' | 'p2sh-p2wpkh' | 'p2pkh'
+
 export interface BTCFeeRecommendation {
   fastestFee: number
   halfHourFee: number
@@ -121,3 +331,9 @@ export interface BTCAddressInfo {
   chain_stats: BTCAddressStats
   mempool_stats: BTCAddressStats
 }
+
+export interface BTCOutspend {
+  spent: boolean
+  txid?: string
+  vin?: number
+}
@@ -1,12 +1,19 @@
 import axios from 'axios'
 import * as bitcoin from 'bitcoinjs-lib'
+import { ethers } from 'ethers'
 
-// There is no types for coinselect
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-expect-error
-import coinselect from 'coinselect'
-
-import { type BTCOutput, type UTXO, type BTCFeeRecommendation } from './types'
+import { estimateTransactionVsize, getCoinSelector } from './coinselection'
+import {
+  type BTCAddressType,
+  type BTCCoinSelectionOptions,
+  type BTCCoinSelectionReport,
+  type BTCCosignerKey,
+  type BTCOutpoint,
+  type BTCOutput,
+  type BTCTransactionVsizes,
+  type UTXO,
+  type BTCFeeRecommendation,
+} from './types'
 
 export async function fetchBTCFeeRate(
   providerUrl: string,
@@ -41,29 +48,125 @@ export async function fetchBTCUTXOs(
   }
 }
 
+export async function fetchBTCTipHeight(providerUrl: string): Promise<number> {
+  const response = await axios.get<number>(`${providerUrl}/blocks/tip/height`)
+  return Number(response.data)
+}
+
+/**
+ * Fetches the median time of the last 11 blocks, the time absolute timelocks are compared to (BIP-113)
+ */
+export async function fetchBTCTipMedianTime(
+  providerUrl: string
+): Promise<number> {
+  const { data: hash } = await axios.get<string>(
+    `${providerUrl}/blocks/tip/hash`
+  )
+  const { data: block } = await axios.get<{ mediantime: number }>(
+    `${providerUrl}/block/${hash}`
+  )
+  return block.mediantime
+}
+
+export const isBTCOutpoint =
+  (utxo: UTXO) =>
+  (outpoint: BTCOutpoint): boolean =>
+    outpoint.txid === utxo.txid && outpoint.vout === utxo.vout
+
+/**
+ * Keeps the UTXOs with at least `minConfirmations` confirmations, unconfirmed UTXOs are kept when it is 0
+ */
+export async function filterBTCUTXOsByConfirmations(
+  providerUrl: string,
+  utxos: UTXO[],
+  minConfirmations: number
+): Promise<UTXO[]> {
+  if (minConfirmations <= 0) {
+    return utxos
+  }
+
+  const tipHeight =
+    minConfirmations > 1 ? await fetchBTCTipHeight(providerUrl) : undefined
+
+  return utxos.filter(
+    (utxo) =>
+      utxo.status.confirmed &&
+      (tipHeight === undefined ||
+        tipHeight - utxo.status.block_height + 1 >= minConfirmations)
+  )
+}
+
+/**
+ * Selects the UTXOs of the address paying the targets, the change goes back to the address.
+ *
+ * @param providerUrl - The Esplora API endpoint
+ * @param from - The address spending its UTXOs
+ * @param targets - The outputs to pay
+ * @param options - The coin selection options, or the confirmation target for backward compatibility
+ * @param vsizes - Virtual sizes of the inputs and change of the address, P2PKH by default
+ * @returns The selected inputs and outputs, with a report of the change and fees
+ */
 export async function fetchBTCFeeProperties(
   providerUrl: string,
   from: string,
   targets: BTCOutput[],
-  confirmationTarget = 6
-): Promise<{
-  inputs: UTXO[]
-  outputs: BTCOutput[]
-  fee: number
-}> {
+  options: BTCCoinSelectionOptions | number = {},
+  vsizes?: BTCTransactionVsizes
+): Promise<BTCCoinSelectionReport> {
+  const {
+    strategy = 'default',
+    confirmationTarget = 6,
+    minConfirmations = 1,
+    include = [],
+    exclude = [],
+    feeRate = Math.ceil(await fetchBTCFeeRate(providerUrl, confirmationTarget)),
+  } = typeof options === 'number' ? { confirmationTarget: options } : options
+
   const utxos = await fetchBTCUTXOs(providerUrl, from)
-  const feeRate = await fetchBTCFeeRate(providerUrl, confirmationTarget)
 
-  // Add a small amount to the fee rate to ensure the transaction is confirmed
-  const ret = coinselect(utxos, targets, Math.ceil(feeRate + 1))
+  const required = include.map((outpoint) => {
+    const utxo = utxos.find((utxo) => isBTCOutpoint(utxo)(outpoint))
+    if (!utxo || exclude.some(isBTCOutpoint(utxo))) {
+      throw new Error(
+        `UTXO ${outpoint.txid}:${outpoint.vout} can't be spent by ${from}`
+      )
+    }
+    return utxo
+  })
+
+  const candidates = await filterBTCUTXOsByConfirmations(
+    providerUrl,
+    utxos.filter(
+      (utxo) =>
+        !include.some(isBTCOutpoint(utxo)) && !exclude.some(isBTCOutpoint(utxo))
+    ),
+    minConfirmations
+  )
+
+  const { inputs, outputs, fee } = getCoinSelector(strategy)({
+    utxos: candidates,
+    required,
+    targets,
+    feeRate,
+    vsizes,
+  })
 
-  if (!ret.inputs || !ret.outputs) {
+  if (!inputs || !outputs) {
     throw new Error(
-      'Invalid transaction: coinselect failed to find a suitable set of inputs and outputs. This could be due to insufficient funds, or no inputs being available that meet the criteria.'
+      'Invalid transaction: coin selection failed to find a suitable set of inputs and outputs. This could be due to insufficient funds, or no inputs being available that meet the criteria.'
     )
   }
 
-  return ret
+  return {
+    inputs,
+    outputs,
+    // Selectors append the change after the targets
+    change:
+      outputs.length > targets.length ? outputs[outputs.length - 1].value : 0,
+    fee,
+    feeRate,
+    effectiveFeeRate: fee / estimateTransactionVsize(inputs, outputs, vsizes),
+  }
 }
 
 export function parseBTCNetwork(network: string): bitcoin.networks.Network {
@@ -78,3 +181,91 @@ export function parseBTCNetwork(network: string): bitcoin.networks.Network {
       throw new Error(`Unknown Bitcoin network: ${network}`)
   }
 }
+
+export function getBTCPayment(
+  publicKey: Buffer,
+  addressType: BTCAddressType,
+  network: bitcoin.networks.Network
+): bitcoin.Payment {
+  switch (addressType) {
+    case 'p2wpkh':
+      return bitcoin.payments.p2wpkh({ pubkey: publicKey, network })
+    case 'p2sh-p2wpkh':
+      return bitcoin.payments.p2sh({
+        redeem: bitcoin.payments.p2wpkh({ pubkey: publicKey, network }),
+        network,
+      })
+    case 'p2pkh':
+      return bitcoin.payments.p2pkh({ pubkey: publicKey, network })
+  }
+}
+
+/**
+ * Infers the address type from its output script, P2SH addresses are assumed to wrap a P2WPKH script
+ */
+export function getBTCAddressType(
+  address: string,
+  network: bitcoin.networks.Network
+): BTCAddressType {
+  const script = bitcoin.address.toOutputScript(address, network)
+
+  if (
+    script.length === 22 &&
+    script[0] === bitcoin.opcodes.OP_0 &&
+    script[1] === 20
+  ) {
+    return 'p2wpkh'
+  } else if (script.length === 23 && script[0] === bitcoin.opcodes.OP_HASH160) {
+    return 'p2sh-p2wpkh'
+  } else if (script.length === 25 && script[0] === bitcoin.opcodes.OP_DUP) {
+    return 'p2pkh'
+  }
+
+  throw new Error(`Unsupported address type: ${address}`)
+}
+
+/**
+ * Gets the compressed public key of a cosigner, deriving it from the extended public key when given one
+ */
+export function parseBTCCosignerKey(key: BTCCosignerKey): Buffer {
+  if (typeof key === 'string') {
+    const publicKey = Buffer.from(key, 'hex')
+    if (publicKey.length !== 33) {
+      throw new Error(`Invalid compressed public key: ${key}`)
+    }
+    return publicKey
+  }
+
+  const node = ethers.HDNodeWallet.fromExtendedKey(key.xpub)
+  const child = key.path ? node.derivePath(key.path) : node
+
+  return Buffer.from(child.publicKey.substring(2), 'hex')
+}
+
+export function encodeBTCVarInt(value: number): Buffer {
+  if (value < 0xfd) {
+    return Buffer.from([value])
+  }
+
+  const buffer = Buffer.alloc(value <= 0xffff ? 3 : 5)
+  if (value <= 0xffff) {
+    buffer.writeUInt8(0xfd, 0)
+    buffer.writeUInt16LE(value, 1)
+  } else {
+    buffer.writeUInt8(0xfe, 0)
+    buffer.writeUInt32LE(value, 1)
+  }
+  return buffer
+}
+
+/**
+ * Serializes a witness stack, as in a transaction or a PSBT final script witness
+ */
+export function encodeBTCWitness(witness: Buffer[]): Buffer {
+  return Buffer.concat([
+    encodeBTCVarInt(witness.length),
+    ...witness.map((item) =>
+      Buffer.concat([encodeBTCVarInt(item.length), item])
+    ),
+  ])
+}
@@ -1,13 +1,19 @@
 import { type MPCSignature, type KeyDerivationPath } from '../signature/types'
+import {
+  type Amount,
+  type TransactionStatus,
+  type WaitForConfirmationOptions,
+} from './types'
 
 export interface Chain<TransactionRequest, UnsignedTransaction> {
   /**
-   * Gets the balance for a given address
+   * Gets the balance for a given address, in base units of the native asset
    */
-  getBalance: (address: string) => Promise<string>
+  getBalance: (address: string) => Promise<Amount>
 
   /**
-   * Derives an address and public key from a signer ID and derivation path
+   * Derives an address and public key from a signer ID and derivation path.
+   * The derivation is done locally from the MPC root public key, which is fetched once and cached.
    */
   deriveAddressAndPublicKey: (
     signerId: string,
@@ -17,6 +23,14 @@ export interface Chain<TransactionRequest, UnsignedTransaction> {
     publicKey: string
   }>
 
+  /**
+   * Gets the address and public key for a public key already derived (e.g. from the contract or the kdf module)
+   */
+  getAddressAndPublicKey: (derivedPublicKeyNAJ: string) => Promise<{
+    address: string
+    publicKey: string
+  }>
+
   /**
    * Stores a transaction in local storage
    */
@@ -46,11 +60,21 @@ export interface Chain<TransactionRequest, UnsignedTransaction> {
   }>
 
   /**
-   * Adds signatures to transaction and broadcasts it
+   * Adds signatures to transaction and broadcasts it.
+   * The signatures are verified against the payloads and the public key first, throwing a SignatureVerificationError if any is invalid.
    */
   addSignatureAndBroadcast: (params: {
     transaction: UnsignedTransaction
     mpcSignatures: MPCSignature[]
     publicKey: string
   }) => Promise<string>
+
+  /**
+   * Polls a broadcast transaction until it reaches the requested confirmations, fails, or is dropped or replaced.
+   * Resolves with the last known status on timeout and rejects when the signal is aborted.
+   */
+  waitForConfirmation: (
+    transactionHash: string,
+    options?: WaitForConfirmationOptions
+  ) => Promise<TransactionStatus>
 }
@@ -14,10 +14,14 @@ import { ripemd160, sha256 } from '@cosmjs/crypto'
 
 import { fetchChainInfo } from './utils'
 import {
+  type Amount,
   type MPCPayloads,
   type ChainSignatureContracts,
   type NearNetworkIds,
+  type TransactionStatus,
+  type WaitForConfirmationOptions,
 } from '../types'
+import { createRootPublicKeyFetcher, pollTransactionStatus } from '../utils'
 import {
   type BalanceResponse,
   type CosmosNetworkIds,
@@ -30,7 +34,8 @@ import {
   type KeyDerivationPath,
 } from '../../signature/types'
 import { toRSV, najToPubKey } from '../../signature/utils'
-import { ChainSignaturesContract } from '../../contracts'
+import { verifyMPCSignatures } from '../../signature/verify'
+import { deriveChildPublicKey } from '../../kdf'
 import { type Chain } from '../Chain'
 import { bech32 } from 'bech32'
 import { SignMode } from 'cosmjs-types/cosmos/tx/signing/v1beta1/signing'
@@ -38,24 +43,28 @@ import { SignMode } from 'cosmjs-types/cosmos/tx/signing/v1beta1/signing'
 export class Cosmos
   implements Chain<CosmosTransactionRequest, CosmosUnsignedTransaction>
 {
-  private readonly nearNetworkId: NearNetworkIds
   private readonly registry: Registry
-  private readonly contract: ChainSignatureContracts
   private readonly chainId: CosmosNetworkIds
+  private readonly fetchRootPublicKey: () => Promise<string>
 
   constructor({
     nearNetworkId,
     contract,
     chainId,
+    rootPublicKey,
   }: {
     nearNetworkId: NearNetworkIds
     contract: ChainSignatureContracts
     chainId: CosmosNetworkIds
+    rootPublicKey?: string
   }) {
-    this.nearNetworkId = nearNetworkId
     this.registry = new Registry()
-    this.contract = contract
     this.chainId = chainId
+    this.fetchRootPublicKey = createRootPublicKeyFetcher({
+      nearNetworkId,
+      contract,
+      rootPublicKey,
+    })
   }
 
   private parseRSVSignature(rsvSignature: RSVSignature): Uint8Array {
@@ -65,7 +74,7 @@ export class Cosmos
     ])
   }
 
-  async getBalance(address: string): Promise<string> {
+  async getBalance(address: string): Promise<Amount> {
     try {
       const { restUrl, denom, decimals } = await fetchChainInfo(this.chainId)
 
@@ -79,12 +88,8 @@ export class Cosmos
 
       const data = (await response.json()) as BalanceResponse
       const balance = data.balances.find((b) => b.denom === denom)
-      const amount = balance?.amount ?? '0'
 
-      const formattedBalance = (
-        parseInt(amount) / Math.pow(10, decimals)
-      ).toString()
-      return formattedBalance
+      return { value: BigInt(balance?.amount ?? '0'), decimals }
     } catch (error) {
       console.error('Failed to fetch Cosmos balance:', error)
       throw new Error('Failed to fetch Cosmos balance')
@@ -98,25 +103,32 @@ export class Cosmos
     address: string
     publicKey: string
   }> {
-    const { prefix } = await fetchChainInfo(this.chainId)
-    const derivedPubKeyNAJ = await ChainSignaturesContract.getDerivedPublicKey({
-      networkId: this.nearNetworkId,
-      contract: this.contract,
-      args: { path, predecessor: signerId },
+    const derivedPubKeyNAJ = deriveChildPublicKey({
+      rootPublicKey: await this.fetchRootPublicKey(),
+      predecessor: signerId,
+      path,
     })
 
-    if (!derivedPubKeyNAJ) {
-      throw new Error('Failed to get derived public key')
-    }
+    return await this.getAddressAndPublicKey(derivedPubKeyNAJ)
+  }
 
+  async getAddressAndPublicKey(derivedPubKeyNAJ: string): Promise<{
+    address: string
+    publicKey: string
+  }> {
+    const { prefix } = await fetchChainInfo(this.chainId)
     const derivedKey = najToPubKey(derivedPubKeyNAJ, { compress: true })
-    const pubKeySha256 = sha256(Buffer.from(fromHex(derivedKey)))
-    const ripemd160Hash = ripemd160(pubKeySha256)
-    const address = bech32.encode(prefix, bech32.toWords(ripemd160Hash))
+    const address = this.publicKeyToAddress(derivedKey, prefix)
 
     return { address, publicKey: derivedKey }
   }
 
+  private publicKeyToAddress(publicKey: string, prefix: string): string {
+    const pubKeySha256 = sha256(Buffer.from(fromHex(publicKey)))
+    const ripemd160Hash = ripemd160(pubKeySha256)
+    return bech32.encode(prefix, bech32.toWords(ripemd160Hash))
+  }
+
   setTransaction(
     transaction: CosmosUnsignedTransaction,
     storageKey: string
@@ -221,13 +233,35 @@ export class Cosmos
   async addSignatureAndBroadcast({
     transaction,
     mpcSignatures,
+    publicKey,
   }: {
     transaction: CosmosUnsignedTransaction
     mpcSignatures: MPCSignature[]
+    publicKey: string
   }): Promise<string> {
-    const { rpcUrl } = await fetchChainInfo(this.chainId)
+    const { rpcUrl, prefix } = await fetchChainInfo(this.chainId)
     const client = await StargateClient.connect(rpcUrl)
 
+    const address = this.publicKeyToAddress(publicKey, prefix)
+    const accountOnChain = await client.getAccount(address)
+    if (!accountOnChain) {
+      throw new Error(`Account ${address} does not exist on chain`)
+    }
+
+    // Rebuild the sign doc so the signatures are checked against what the chain will verify
+    const signDoc = makeSignDoc(
+      transaction.bodyBytes,
+      transaction.authInfoBytes,
+      this.chainId,
+      accountOnChain.accountNumber
+    )
+
+    verifyMPCSignatures({
+      mpcPayloads: [{ index: 0, payload: sha256(makeSignBytes(signDoc)) }],
+      mpcSignatures,
+      publicKey,
+    })
+
     // Allow support for multi-sig but the package only supports single-sig
     transaction.signatures = mpcSignatures.map((sig) =>
       this.parseRSVSignature(toRSV(sig))
@@ -242,4 +276,43 @@ export class Cosmos
 
     return broadcastResponse.transactionHash
   }
+
+  /**
+   * The mempool can't be queried by hash, so a transaction that never makes it to a block stays pending until the timeout
+   */
+  async waitForConfirmation(
+    transactionHash: string,
+    options?: WaitForConfirmationOptions
+  ): Promise<TransactionStatus> {
+    const { rpcUrl } = await fetchChainInfo(this.chainId)
+    const client = await StargateClient.connect(rpcUrl)
+
+    const fetchStatus = async (): Promise<TransactionStatus> => {
+      const transaction = await client.getTx(transactionHash)
+
+      if (!transaction) {
+        return { status: 'pending' }
+      }
+
+      if (transaction.code !== 0) {
+        return {
+          status: 'failed',
+          reason: transaction.rawLog,
+          blockNumber: transaction.height,
+        }
+      }
+
+      return {
+        status: 'confirmed',
+        confirmations: (await client.getHeight()) - transaction.height + 1,
+        blockNumber: transaction.height,
+      }
+    }
+
+    try {
+      return await pollTransactionStatus(fetchStatus, options)
+    } finally {
+      client.disconnect()
+    }
+  }
 }
@@ -0,0 +1,161 @@
+import { ethers } from 'ethers'
+
+import { type EVM } from './EVM'
+import {
+  type EVMFeeOptions,
+  type EVMTransactionRequest,
+  type EVMUnsignedTransaction,
+} from './types'
+import { type Amount, type MPCPayloads } from '../types'
+
+const ERC1155_ABI = [
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+]
+
+/**
+ * ERC-1155 helpers for a single collection, the transactions are signed and broadcast through the EVM instance.
+ */
+export class ERC1155 {
+  private readonly evm: EVM
+  private readonly collectionAddress: string
+  private readonly collection: ethers.Contract
+
+  constructor(config: { evm: EVM; collectionAddress: string }) {
+    this.evm = config.evm
+    this.collectionAddress = config.collectionAddress
+    this.collection = new ethers.Contract(
+      config.collectionAddress,
+      ERC1155_ABI,
+      config.evm.getProvider()
+    )
+  }
+
+  async getBalance(address: string, id: ethers.BigNumberish): Promise<Amount> {
+    const balance: bigint = await this.collection.balanceOf(address, id)
+    return { value: balance, decimals: 0 }
+  }
+
+  async getBalanceBatch(
+    address: string,
+    ids: ethers.BigNumberish[]
+  ): Promise<Amount[]> {
+    const balances: bigint[] = await this.collection.balanceOfBatch(
+      ids.map(() => address),
+      ids
+    )
+    return balances.map((balance) => ({ value: balance, decimals: 0 }))
+  }
+
+  private async getMPCPayloadAndTransaction(
+    from: string,
+    functionName:
+      | 'safeTransferFrom'
+      | 'safeBatchTransferFrom'
+      | 'setApprovalForAll',
+    args: unknown[],
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const transactionRequest: EVMTransactionRequest = {
+      from,
+      to: this.collectionAddress,
+      value: BigInt(0),
+      data: this.collection.interface.encodeFunctionData(functionName, args),
+    }
+
+    return await this.evm.getMPCPayloadAndTransaction(
+      transactionRequest,
+      feeOptions
+    )
+  }
+
+  /**
+   * Transfers an amount of a token, `owner` defaults to `from` and must be set when `from` is an approved operator
+   */
+  async getSafeTransferFromMPCPayloadAndTransaction(
+    request: {
+      from: string
+      owner?: string
+      to: string
+      id: ethers.BigNumberish
+      amount: ethers.BigNumberish
+      data?: ethers.BytesLike
+    },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'safeTransferFrom',
+      [
+        request.owner ?? request.from,
+        request.to,
+        request.id,
+        request.amount,
+        request.data ?? '0x',
+      ],
+      feeOptions
+    )
+  }
+
+  /**
+   * Transfers several tokens at once, `ids` and `amounts` are matched by position
+   */
+  async getSafeBatchTransferFromMPCPayloadAndTransaction(
+    request: {
+      from: string
+      owner?: string
+      to: string
+      ids: ethers.BigNumberish[]
+      amounts: ethers.BigNumberish[]
+      data?: ethers.BytesLike
+    },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    if (request.ids.length !== request.amounts.length) {
+      throw new Error('ids and amounts must have the same length')
+    }
+
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'safeBatchTransferFrom',
+      [
+        request.owner ?? request.from,
+        request.to,
+        request.ids,
+        request.amounts,
+        request.data ?? '0x',
+      ],
+      feeOptions
+    )
+  }
+
+  /**
+   * Approves or revokes `operator` to transfer every token of `from`, ERC-1155 has no per token approval
+   */
+  async getSetApprovalForAllMPCPayloadAndTransaction(
+    request: { from: string; operator: string; approved: boolean },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'setApprovalForAll',
+      [request.operator, request.approved],
+      feeOptions
+    )
+  }
+}
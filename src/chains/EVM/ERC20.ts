@@ -0,0 +1,152 @@
+import { ethers } from 'ethers'
+
+import { type EVM } from './EVM'
+import {
+  type EVMFeeOptions,
+  type EVMTransactionRequest,
+  type EVMUnsignedTransaction,
+} from './types'
+import { type Amount, type MPCPayloads } from '../types'
+import { convertAmount } from '../utils'
+
+const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+]
+
+/**
+ * ERC-20 helpers for a single token, the transactions are signed and broadcast through the EVM instance.
+ * Amounts are returned in base units with the token decimals, and given either that way or as a decimal string (e.g. '1.5').
+ */
+export class ERC20 {
+  private readonly evm: EVM
+  private readonly tokenAddress: string
+  private readonly token: ethers.Contract
+  private decimals: number | undefined
+
+  constructor(config: { evm: EVM; tokenAddress: string }) {
+    this.evm = config.evm
+    this.tokenAddress = config.tokenAddress
+    this.token = new ethers.Contract(
+      config.tokenAddress,
+      ERC20_ABI,
+      config.evm.getProvider()
+    )
+  }
+
+  async getDecimals(): Promise<number> {
+    if (this.decimals === undefined) {
+      this.decimals = Number(await this.token.decimals())
+    }
+
+    return this.decimals
+  }
+
+  async getSymbol(): Promise<string> {
+    return await this.token.symbol()
+  }
+
+  async getBalance(address: string): Promise<Amount> {
+    const balance: bigint = await this.token.balanceOf(address)
+    return { value: balance, decimals: await this.getDecimals() }
+  }
+
+  async getAllowance(owner: string, spender: string): Promise<Amount> {
+    const allowance: bigint = await this.token.allowance(owner, spender)
+    return { value: allowance, decimals: await this.getDecimals() }
+  }
+
+  private async toBaseUnits(amount: string | Amount): Promise<bigint> {
+    const decimals = await this.getDecimals()
+
+    return typeof amount === 'string'
+      ? ethers.parseUnits(amount, decimals)
+      : convertAmount(amount, decimals).value
+  }
+
+  private async getMPCPayloadAndTransaction(
+    from: string,
+    functionName: 'transfer' | 'approve' | 'transferFrom',
+    args: unknown[],
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const transactionRequest: EVMTransactionRequest = {
+      from,
+      to: this.tokenAddress,
+      value: BigInt(0),
+      data: this.token.interface.encodeFunctionData(functionName, args),
+    }
+
+    return await this.evm.getMPCPayloadAndTransaction(
+      transactionRequest,
+      feeOptions
+    )
+  }
+
+  async getTransferMPCPayloadAndTransaction(
+    request: { from: string; to: string; amount: string | Amount },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const amount = await this.toBaseUnits(request.amount)
+
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'transfer',
+      [request.to, amount],
+      feeOptions
+    )
+  }
+
+  async getApproveMPCPayloadAndTransaction(
+    request: { from: string; spender: string; amount: string | Amount },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const amount = await this.toBaseUnits(request.amount)
+
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'approve',
+      [request.spender, amount],
+      feeOptions
+    )
+  }
+
+  /**
+   * Moves tokens from owner to recipient, `from` must have enough allowance from the owner
+   */
+  async getTransferFromMPCPayloadAndTransaction(
+    request: {
+      from: string
+      owner: string
+      to: string
+      amount: string | Amount
+    },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const amount = await this.toBaseUnits(request.amount)
+
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'transferFrom',
+      [request.owner, request.to, amount],
+      feeOptions
+    )
+  }
+}
@@ -0,0 +1,344 @@
+import { ethers } from 'ethers'
+
+import { type EVM } from './EVM'
+import { fetchEVMFeePresets } from './utils'
+import {
+  type UserOperation,
+  type UserOperationGasEstimate,
+  type UserOperationRequest,
+  type UserOperationV06,
+  type UserOperationV07,
+  type UserOperationVersion,
+} from './types'
+import { type MPCPayloads } from '../types'
+import { type MPCSignature } from '../../signature/types'
+import { verifyMPCSignatures } from '../../signature/verify'
+
+const ENTRY_POINT_ABI = [
+  'function getNonce(address sender, uint192 key) view returns (uint256)',
+]
+
+// Well formed signature used while estimating gas, bundlers reject empty signatures
+const DUMMY_SIGNATURE =
+  '0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c'
+
+const isUserOperationV06 = (
+  userOperation: UserOperation
+): userOperation is UserOperationV06 => 'initCode' in userOperation
+
+const packUserOperationV06 = (userOperation: UserOperationV06): string =>
+  ethers.AbiCoder.defaultAbiCoder().encode(
+    [
+      'address',
+      'uint256',
+      'bytes32',
+      'bytes32',
+      'uint256',
+      'uint256',
+      'uint256',
+      'uint256',
+      'uint256',
+      'bytes32',
+    ],
+    [
+      userOperation.sender,
+      userOperation.nonce,
+      ethers.keccak256(userOperation.initCode),
+      ethers.keccak256(userOperation.callData),
+      userOperation.callGasLimit,
+      userOperation.verificationGasLimit,
+      userOperation.preVerificationGas,
+      userOperation.maxFeePerGas,
+      userOperation.maxPriorityFeePerGas,
+      ethers.keccak256(userOperation.paymasterAndData),
+    ]
+  )
+
+const packUserOperationV07 = (userOperation: UserOperationV07): string => {
+  const initCode = userOperation.factory
+    ? ethers.concat([userOperation.factory, userOperation.factoryData ?? '0x'])
+    : '0x'
+  const paymasterAndData = userOperation.paymaster
+    ? ethers.concat([
+        userOperation.paymaster,
+        ethers.toBeHex(userOperation.paymasterVerificationGasLimit ?? 0, 16),
+        ethers.toBeHex(userOperation.paymasterPostOpGasLimit ?? 0, 16),
+        userOperation.paymasterData ?? '0x',
+      ])
+    : '0x'
+
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    [
+      'address',
+      'uint256',
+      'bytes32',
+      'bytes32',
+      'bytes32',
+      'uint256',
+      'bytes32',
+      'bytes32',
+    ],
+    [
+      userOperation.sender,
+      userOperation.nonce,
+      ethers.keccak256(initCode),
+      ethers.keccak256(userOperation.callData),
+      ethers.concat([
+        ethers.toBeHex(userOperation.verificationGasLimit, 16),
+        ethers.toBeHex(userOperation.callGasLimit, 16),
+      ]),
+      userOperation.preVerificationGas,
+      ethers.concat([
+        ethers.toBeHex(userOperation.maxPriorityFeePerGas, 16),
+        ethers.toBeHex(userOperation.maxFeePerGas, 16),
+      ]),
+      ethers.keccak256(paymasterAndData),
+    ]
+  )
+}
+
+/**
+ * Computes the userOpHash as defined by the EntryPoint getUserOpHash for v0.6 and v0.7
+ */
+export const getUserOperationHash = (
+  userOperation: UserOperation,
+  entryPoint: string,
+  chainId: bigint
+): string => {
+  const packed = isUserOperationV06(userOperation)
+    ? packUserOperationV06(userOperation)
+    : packUserOperationV07(userOperation)
+
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ['bytes32', 'address', 'uint256'],
+      [ethers.keccak256(packed), entryPoint, chainId]
+    )
+  )
+}
+
+const toRpcUserOperation = (
+  userOperation: UserOperation
+): Record<string, string> =>
+  Object.entries(userOperation).reduce<Record<string, string>>(
+    (rpcUserOperation, [key, value]) => {
+      if (value !== undefined) {
+        rpcUserOperation[key] =
+          typeof value === 'bigint' ? ethers.toQuantity(value) : String(value)
+      }
+      return rpcUserOperation
+    },
+    {}
+  )
+
+/**
+ * ERC-4337 support for smart accounts owned by a derived EVM key.
+ * Reads (nonce, fees) go through the EVM instance provider, UserOperations are sent to the bundler.
+ */
+export class ERC4337 {
+  private readonly evm: EVM
+  private readonly bundler: ethers.JsonRpcProvider
+  private readonly entryPoint: string
+  private readonly version: UserOperationVersion
+  // Accounts like SimpleAccount verify an EIP-191 signature of the userOpHash instead of the raw hash
+  private readonly signUserOpHashAsMessage: boolean
+
+  constructor(config: {
+    evm: EVM
+    bundlerUrl: string
+    entryPoint: string
+    version: UserOperationVersion
+    signUserOpHashAsMessage?: boolean
+  }) {
+    this.evm = config.evm
+    this.bundler = new ethers.JsonRpcProvider(config.bundlerUrl)
+    this.entryPoint = config.entryPoint
+    this.version = config.version
+    this.signUserOpHashAsMessage = config.signUserOpHashAsMessage ?? false
+  }
+
+  private async fetchFees(
+    request: UserOperationRequest
+  ): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const provider = this.evm.getProvider()
+    const presets = await fetchEVMFeePresets(provider)
+    const preset = presets?.[request.feeStrategy ?? 'standard']
+
+    if (preset) {
+      return preset
+    }
+
+    const feeData = await provider.getFeeData()
+    if (feeData.maxFeePerGas == null || feeData.maxPriorityFeePerGas == null) {
+      throw new Error('Failed to estimate fees for the user operation')
+    }
+
+    return {
+      maxFeePerGas: feeData.maxFeePerGas,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+    }
+  }
+
+  private async fetchNonce(sender: string): Promise<bigint> {
+    const entryPoint = new ethers.Contract(
+      this.entryPoint,
+      ENTRY_POINT_ABI,
+      this.evm.getProvider()
+    )
+    return await entryPoint.getNonce(sender, 0)
+  }
+
+  async estimateUserOperationGas(
+    userOperation: UserOperation
+  ): Promise<UserOperationGasEstimate> {
+    const estimate: Record<string, string | undefined> =
+      await this.bundler.send('eth_estimateUserOperationGas', [
+        toRpcUserOperation(userOperation),
+        this.entryPoint,
+      ])
+
+    const toBigInt = (value: string | undefined): bigint | undefined =>
+      value !== undefined ? BigInt(value) : undefined
+
+    return {
+      preVerificationGas: BigInt(estimate.preVerificationGas ?? 0),
+      verificationGasLimit: BigInt(estimate.verificationGasLimit ?? 0),
+      callGasLimit: BigInt(estimate.callGasLimit ?? 0),
+      paymasterVerificationGasLimit: toBigInt(
+        estimate.paymasterVerificationGasLimit
+      ),
+      paymasterPostOpGasLimit: toBigInt(estimate.paymasterPostOpGasLimit),
+    }
+  }
+
+  /**
+   * Builds a UserOperation for the configured EntryPoint version, filling the nonce, fees and gas limits
+   */
+  async buildUserOperation(
+    request: UserOperationRequest
+  ): Promise<UserOperation> {
+    const nonce = request.nonce ?? (await this.fetchNonce(request.sender))
+    const fees = await this.fetchFees(request)
+    const gas = {
+      callGasLimit: BigInt(0),
+      verificationGasLimit: BigInt(0),
+      preVerificationGas: BigInt(0),
+    }
+
+    const userOperation: UserOperation =
+      this.version === '0.6'
+        ? {
+            sender: request.sender,
+            nonce,
+            initCode: request.factory
+              ? ethers.concat([request.factory, request.factoryData ?? '0x'])
+              : '0x',
+            callData: request.callData,
+            ...gas,
+            ...fees,
+            paymasterAndData: request.paymaster
+              ? ethers.concat([
+                  request.paymaster,
+                  request.paymasterData ?? '0x',
+                ])
+              : '0x',
+            signature: DUMMY_SIGNATURE,
+          }
+        : {
+            sender: request.sender,
+            nonce,
+            factory: request.factory,
+            factoryData: request.factory
+              ? (request.factoryData ?? '0x')
+              : undefined,
+            callData: request.callData,
+            ...gas,
+            ...fees,
+            paymaster: request.paymaster,
+            paymasterData: request.paymaster
+              ? (request.paymasterData ?? '0x')
+              : undefined,
+            signature: DUMMY_SIGNATURE,
+          }
+
+    const estimate = await this.estimateUserOperationGas(userOperation)
+
+    return {
+      ...userOperation,
+      preVerificationGas: estimate.preVerificationGas,
+      verificationGasLimit: estimate.verificationGasLimit,
+      callGasLimit: estimate.callGasLimit,
+      ...(!isUserOperationV06(userOperation) &&
+        userOperation.paymaster && {
+          paymasterVerificationGasLimit: estimate.paymasterVerificationGasLimit,
+          paymasterPostOpGasLimit: estimate.paymasterPostOpGasLimit,
+        }),
+      signature: '0x',
+    }
+  }
+
+  async getUserOperationHash(userOperation: UserOperation): Promise<string> {
+    const { chainId } = await this.evm.getProvider().getNetwork()
+    return getUserOperationHash(userOperation, this.entryPoint, chainId)
+  }
+
+  private async hashUserOperation(
+    userOperation: UserOperation
+  ): Promise<Uint8Array> {
+    const userOperationHash = await this.getUserOperationHash(userOperation)
+
+    return ethers.getBytes(
+      this.signUserOpHashAsMessage
+        ? ethers.hashMessage(ethers.getBytes(userOperationHash))
+        : userOperationHash
+    )
+  }
+
+  async getMPCPayloadAndUserOperation(request: UserOperationRequest): Promise<{
+    userOperation: UserOperation
+    mpcPayloads: MPCPayloads
+  }> {
+    const userOperation = await this.buildUserOperation(request)
+
+    return {
+      userOperation,
+      mpcPayloads: [
+        {
+          index: 0,
+          payload: await this.hashUserOperation(userOperation),
+        },
+      ],
+    }
+  }
+
+  /**
+   * Attaches the signature to the UserOperation and sends it to the bundler
+   *
+   * @returns The userOpHash returned by the bundler
+   */
+  async addSignatureAndSend({
+    userOperation,
+    mpcSignatures,
+    publicKey,
+  }: {
+    userOperation: UserOperation
+    mpcSignatures: MPCSignature[]
+    publicKey: string
+  }): Promise<string> {
+    verifyMPCSignatures({
+      mpcPayloads: [
+        { index: 0, payload: await this.hashUserOperation(userOperation) },
+      ],
+      mpcSignatures,
+      publicKey,
+    })
+
+    // Smart accounts verify the same 65 bytes signature as ecrecover based message signatures
+    const signature = this.evm.formatMessageSignature(mpcSignatures[0])
+
+    return await this.bundler.send('eth_sendUserOperation', [
+      toRpcUserOperation({ ...userOperation, signature }),
+      this.entryPoint,
+    ])
+  }
+}
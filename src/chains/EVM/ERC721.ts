@@ -0,0 +1,133 @@
+import { ethers } from 'ethers'
+
+import { type EVM } from './EVM'
+import {
+  type EVMFeeOptions,
+  type EVMTransactionRequest,
+  type EVMUnsignedTransaction,
+} from './types'
+import { type Amount, type MPCPayloads } from '../types'
+
+// Only the overload with data is declared, otherwise the function name is ambiguous when encoding
+const ERC721_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function approve(address to, uint256 tokenId)',
+  'function setApprovalForAll(address operator, bool approved)',
+]
+
+/**
+ * ERC-721 helpers for a single collection, the transactions are signed and broadcast through the EVM instance.
+ */
+export class ERC721 {
+  private readonly evm: EVM
+  private readonly collectionAddress: string
+  private readonly collection: ethers.Contract
+
+  constructor(config: { evm: EVM; collectionAddress: string }) {
+    this.evm = config.evm
+    this.collectionAddress = config.collectionAddress
+    this.collection = new ethers.Contract(
+      config.collectionAddress,
+      ERC721_ABI,
+      config.evm.getProvider()
+    )
+  }
+
+  async getOwner(tokenId: ethers.BigNumberish): Promise<string> {
+    return await this.collection.ownerOf(tokenId)
+  }
+
+  async getBalance(address: string): Promise<Amount> {
+    const balance: bigint = await this.collection.balanceOf(address)
+    return { value: balance, decimals: 0 }
+  }
+
+  private async getMPCPayloadAndTransaction(
+    from: string,
+    functionName: 'safeTransferFrom' | 'approve' | 'setApprovalForAll',
+    args: unknown[],
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const transactionRequest: EVMTransactionRequest = {
+      from,
+      to: this.collectionAddress,
+      value: BigInt(0),
+      data: this.collection.interface.encodeFunctionData(functionName, args),
+    }
+
+    return await this.evm.getMPCPayloadAndTransaction(
+      transactionRequest,
+      feeOptions
+    )
+  }
+
+  /**
+   * Transfers a token, `owner` defaults to `from` and must be set when `from` is an approved operator
+   */
+  async getSafeTransferFromMPCPayloadAndTransaction(
+    request: {
+      from: string
+      owner?: string
+      to: string
+      tokenId: ethers.BigNumberish
+      data?: ethers.BytesLike
+    },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'safeTransferFrom',
+      [
+        request.owner ?? request.from,
+        request.to,
+        request.tokenId,
+        request.data ?? '0x',
+      ],
+      feeOptions
+    )
+  }
+
+  /**
+   * Approves `spender` to transfer a single token
+   */
+  async getApproveMPCPayloadAndTransaction(
+    request: { from: string; spender: string; tokenId: ethers.BigNumberish },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'approve',
+      [request.spender, request.tokenId],
+      feeOptions
+    )
+  }
+
+  /**
+   * Approves or revokes `operator` to transfer every token of `from`
+   */
+  async getSetApprovalForAllMPCPayloadAndTransaction(
+    request: { from: string; operator: string; approved: boolean },
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    return await this.getMPCPayloadAndTransaction(
+      request.from,
+      'setApprovalForAll',
+      [request.operator, request.approved],
+      feeOptions
+    )
+  }
+}
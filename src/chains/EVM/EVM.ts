@@ -1,61 +1,152 @@
 import { ethers, keccak256 } from 'ethers'
-import { fetchEVMFeeProperties } from './utils'
 import {
+  fetchEVMAccessList,
+  fetchEVMFeePresets,
+  fetchEVMFeeProperties,
+  fetchEVMLegacyFeeProperties,
+} from './utils'
+import {
+  type Amount,
   type MPCPayloads,
   type ChainSignatureContracts,
   type NearNetworkIds,
+  type TransactionStatus,
+  type WaitForConfirmationOptions,
 } from '../types'
+import { createRootPublicKeyFetcher, pollTransactionStatus } from '../utils'
 import {
+  type EVMAuthorizationRequest,
+  type EVMContractCallRequest,
+  type EVMFailoverOptions,
+  type EVMFeeOptions,
+  type EVMMessage,
+  type EVMRpcEndpoint,
+  type EVMTypedData,
   type EVMTransactionRequest,
+  type EVMTransactionType,
   type EVMUnsignedTransaction,
 } from './types'
 import { toRSV, najToPubKey } from '../../signature/utils'
+import {
+  SignatureVerificationError,
+  verifyMPCSignatures,
+} from '../../signature/verify'
 import {
   type RSVSignature,
   type MPCSignature,
   type KeyDerivationPath,
 } from '../../signature/types'
-import { ChainSignaturesContract } from '../../contracts'
+import { deriveChildPublicKey } from '../../kdf'
 import { type Chain } from '../Chain'
+import { EVMCallRevertedError } from './errors'
+import { EVMNonceManager, type EVMNonceReservation } from './NonceManager'
+import { EVMFailoverProvider } from './FailoverProvider'
 
 export class EVM
   implements Chain<EVMTransactionRequest, EVMUnsignedTransaction>
 {
-  private readonly provider: ethers.JsonRpcProvider
-  private readonly contract: ChainSignatureContracts
-  private readonly nearNetworkId: NearNetworkIds
+  // Nodes only accept a replacement when both fees are bumped by at least 10%
+  private static readonly MIN_REPLACEMENT_BUMP_PERCENT = 10
+
+  private static readonly ETHER_DECIMALS = 18
+
+  private readonly provider: ethers.JsonRpcProvider | EVMFailoverProvider
+  private readonly nonceManager: EVMNonceManager
+  // Nonces reserved for the transactions prepared by this instance, until they are broadcast or released
+  private readonly nonceReservations = new WeakMap<
+    EVMUnsignedTransaction,
+    EVMNonceReservation
+  >()
+
+  private readonly fetchRootPublicKey: () => Promise<string>
 
   constructor(config: {
-    providerUrl: string
+    providerUrl?: string
+    // Several endpoints with failover, used instead of providerUrl
+    providers?: EVMRpcEndpoint[]
+    failoverOptions?: EVMFailoverOptions
     contract: ChainSignatureContracts
     nearNetworkId: NearNetworkIds
+    rootPublicKey?: string
+    // Share the same nonce manager across instances to prepare transactions concurrently
+    nonceManager?: EVMNonceManager
   }) {
-    this.provider = new ethers.JsonRpcProvider(config.providerUrl)
-    this.contract = config.contract
-    this.nearNetworkId = config.nearNetworkId
+    const endpoints =
+      config.providers ??
+      (config.providerUrl ? [{ url: config.providerUrl }] : [])
+    // A single endpoint has nothing to fail over to, it keeps the timeouts and errors of a plain provider
+    this.provider =
+      endpoints.length === 1 && !config.failoverOptions
+        ? new ethers.JsonRpcProvider(endpoints[0].url)
+        : new EVMFailoverProvider(endpoints, config.failoverOptions)
+    this.fetchRootPublicKey = createRootPublicKeyFetcher({
+      nearNetworkId: config.nearNetworkId,
+      contract: config.contract,
+      rootPublicKey: config.rootPublicKey,
+    })
+    this.nonceManager = config.nonceManager ?? new EVMNonceManager()
+  }
+
+  private async detectTransactionType(): Promise<EVMTransactionType> {
+    const block = await this.provider.getBlock('latest')
+
+    // Chains without a base fee don't support EIP-1559, fallback to legacy transactions
+    return block?.baseFeePerGas != null ? 2 : 0
   }
 
   private async attachGasAndNonce(
-    transaction: EVMTransactionRequest
+    transaction: EVMTransactionRequest,
+    feeOptions?: EVMFeeOptions
   ): Promise<EVMUnsignedTransaction> {
-    const fees = await fetchEVMFeeProperties(
-      this.provider._getConnection().url,
-      transaction
-    )
-    const nonce = await this.provider.getTransactionCount(
-      transaction.from,
-      'latest'
-    )
+    const type =
+      (transaction.type as EVMTransactionType | null | undefined) ??
+      (transaction.authorizationList?.length
+        ? 4
+        : await this.detectTransactionType())
+
+    if (type !== 0 && type !== 1 && type !== 2 && type !== 4) {
+      throw new Error(`Unsupported transaction type: ${String(type)}`)
+    }
+
+    if (type === 4 && !transaction.authorizationList?.length) {
+      throw new Error('EIP-7702 transactions require an authorization list')
+    }
+
+    const accessList =
+      type === 1 && !transaction.accessList
+        ? await fetchEVMAccessList(this.provider, transaction)
+        : transaction.accessList
+
+    const fees =
+      type === 2 || type === 4
+        ? await fetchEVMFeeProperties(this.provider, transaction, feeOptions)
+        : await fetchEVMLegacyFeeProperties(
+            this.provider,
+            { ...transaction, accessList },
+            feeOptions
+          )
+    const reservation =
+      transaction.nonce == null
+        ? await this.nonceManager.reserveNonce(this.provider, transaction.from)
+        : undefined
 
     const { from, ...rest } = transaction
 
-    return {
+    // Legacy transactions are signed with EIP-155 replay protection since the chainId is set
+    const unsignedTransaction: EVMUnsignedTransaction = {
       ...fees,
-      chainId: this.provider._network.chainId,
-      nonce,
-      type: 2,
+      chainId: (await this.provider.getNetwork()).chainId,
+      nonce: reservation?.nonce,
       ...rest,
+      type,
+      accessList: type === 0 ? undefined : accessList,
+    }
+
+    if (reservation) {
+      this.nonceReservations.set(unsignedTransaction, reservation)
     }
+
+    return unsignedTransaction
   }
 
   private parseSignature(signature: RSVSignature): ethers.SignatureLike {
@@ -66,7 +157,6 @@ export class EVM
     })
   }
 
-  // TODO: Should accept a derivedPubKeyNAJ as an argument so we can remove the contract dependency
   async deriveAddressAndPublicKey(
     signerId: string,
     path: KeyDerivationPath
@@ -74,16 +164,19 @@ export class EVM
     address: string
     publicKey: string
   }> {
-    const derivedPubKeyNAJ = await ChainSignaturesContract.getDerivedPublicKey({
-      networkId: this.nearNetworkId,
-      contract: this.contract,
-      args: { path, predecessor: signerId },
+    const derivedPubKeyNAJ = deriveChildPublicKey({
+      rootPublicKey: await this.fetchRootPublicKey(),
+      predecessor: signerId,
+      path,
     })
 
-    if (!derivedPubKeyNAJ) {
-      throw new Error('Failed to get derived public key')
-    }
+    return await this.getAddressAndPublicKey(derivedPubKeyNAJ)
+  }
 
+  async getAddressAndPublicKey(derivedPubKeyNAJ: string): Promise<{
+    address: string
+    publicKey: string
+  }> {
     const childPublicKey = najToPubKey(derivedPubKeyNAJ, { compress: false })
 
     const publicKeyNoPrefix = childPublicKey.startsWith('04')
@@ -98,10 +191,17 @@ export class EVM
     }
   }
 
-  async getBalance(address: string): Promise<string> {
+  /**
+   * Gets the provider used by the chain, so helpers (e.g. ERC20, ERC721) share the same endpoints and failover
+   */
+  getProvider(): ethers.JsonRpcProvider | EVMFailoverProvider {
+    return this.provider
+  }
+
+  async getBalance(address: string): Promise<Amount> {
     try {
       const balance = await this.provider.getBalance(address)
-      return ethers.formatEther(balance)
+      return { value: balance, decimals: EVM.ETHER_DECIMALS }
     } catch (error) {
       console.error(`Failed to fetch balance for address ${address}:`, error)
       throw new Error('Failed to fetch balance.')
@@ -131,23 +231,30 @@ export class EVM
     return txSerialized ? JSON.parse(txSerialized) : undefined
   }
 
+  private hashTransaction(transaction: EVMUnsignedTransaction): Uint8Array {
+    const txSerialized = ethers.Transaction.from(transaction).unsignedSerialized
+    const transactionHash = keccak256(txSerialized)
+    return new Uint8Array(ethers.getBytes(transactionHash))
+  }
+
   async getMPCPayloadAndTransaction(
-    transactionRequest: EVMTransactionRequest
+    transactionRequest: EVMTransactionRequest,
+    feeOptions?: EVMFeeOptions
   ): Promise<{
     transaction: EVMUnsignedTransaction
     mpcPayloads: MPCPayloads
   }> {
-    const transaction = await this.attachGasAndNonce(transactionRequest)
-    const txSerialized = ethers.Transaction.from(transaction).unsignedSerialized
-    const transactionHash = keccak256(txSerialized)
-    const txHash = new Uint8Array(ethers.getBytes(transactionHash))
+    const transaction = await this.attachGasAndNonce(
+      transactionRequest,
+      feeOptions
+    )
 
     return {
       transaction,
       mpcPayloads: [
         {
           index: 0,
-          payload: txHash,
+          payload: this.hashTransaction(transaction),
         },
       ],
     }
@@ -156,15 +263,40 @@ export class EVM
   async addSignatureAndBroadcast({
     transaction,
     mpcSignatures,
+    publicKey,
   }: {
     transaction: EVMUnsignedTransaction
     mpcSignatures: MPCSignature[]
+    publicKey: string
   }): Promise<string> {
+    let txSerialized: string
     try {
-      const txSerialized = ethers.Transaction.from({
+      verifyMPCSignatures({
+        mpcPayloads: [{ index: 0, payload: this.hashTransaction(transaction) }],
+        mpcSignatures,
+        publicKey,
+      })
+
+      txSerialized = ethers.Transaction.from({
         ...transaction,
         signature: this.parseSignature(toRSV(mpcSignatures[0])),
       }).serialized
+    } catch (error) {
+      this.releaseNonce(transaction)
+
+      if (error instanceof SignatureVerificationError) {
+        throw error
+      }
+
+      console.error('Transaction execution failed:', error)
+      throw new Error('Failed to send signed transaction.')
+    }
+
+    // Once broadcast the transaction may be in mempools even if the call failed, its nonce is kept
+    this.nonceReservations.delete(transaction)
+
+    try {
+      // Broadcast to every healthy endpoint, they all resolve to the same hash
       const txResponse = await this.provider.broadcastTransaction(txSerialized)
 
       return txResponse.hash
@@ -173,4 +305,433 @@ export class EVM
       throw new Error('Failed to send signed transaction.')
     }
   }
+
+  /**
+   * Releases the nonce reserved for a transaction that will never be broadcast (e.g. the MPC signature failed),
+   * so the next transaction from the address reuses it instead of leaving a gap.
+   * Only nonces reserved by getMPCPayloadAndTransaction are released, never a nonce set by the caller.
+   */
+  releaseNonce(transaction: EVMUnsignedTransaction): void {
+    this.nonceReservations.get(transaction)?.release()
+    this.nonceReservations.delete(transaction)
+  }
+
+  /**
+   * Gets the MPC payload of an EIP-191 (personal_sign) message
+   */
+  getMessageMPCPayload(message: EVMMessage): MPCPayloads {
+    return [
+      {
+        index: 0,
+        payload: ethers.getBytes(ethers.hashMessage(message)),
+      },
+    ]
+  }
+
+  /**
+   * Gets the MPC payload of EIP-712 typed data
+   */
+  getTypedDataMPCPayload(typedData: EVMTypedData): MPCPayloads {
+    // The domain type is derived from the domain by ethers, it can't be part of the types
+    const { EIP712Domain, ...types } = typedData.types
+
+    return [
+      {
+        index: 0,
+        payload: ethers.getBytes(
+          ethers.TypedDataEncoder.hash(
+            typedData.domain,
+            types,
+            typedData.message
+          )
+        ),
+      },
+    ]
+  }
+
+  /**
+   * Converts the MPC signature of a message or typed data into the 65 bytes hex signature
+   * accepted by ethers.verifyMessage and ethers.verifyTypedData
+   */
+  formatMessageSignature(mpcSignature: MPCSignature): string {
+    return ethers.Signature.from(this.parseSignature(toRSV(mpcSignature)))
+      .serialized
+  }
+
+  private async simulateContractCall(
+    contractInterface: ethers.Interface,
+    transaction: EVMTransactionRequest
+  ): Promise<void> {
+    try {
+      await this.provider.call(transaction)
+    } catch (error) {
+      if (!ethers.isCallException(error)) {
+        throw error
+      }
+
+      // ethers already decodes Error(string) and Panic(uint256) into the reason, custom errors need the contract ABI
+      const customError =
+        error.revert === null && error.data
+          ? contractInterface.parseError(error.data)
+          : null
+      const reason = customError
+        ? `${customError.name}(${customError.args.join(', ')})`
+        : (error.reason ?? 'unknown reason')
+
+      throw new EVMCallRevertedError(reason, error.data)
+    }
+  }
+
+  /**
+   * Encodes a contract call and simulates it with eth_call from the derived address before returning the MPC payload.
+   * A reverting call throws an EVMCallRevertedError, so it never reaches the ChainSignatures contract.
+   */
+  async getContractCallMPCPayloadAndTransaction(
+    request: EVMContractCallRequest,
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const contractInterface = new ethers.Interface(request.abi)
+    const transactionRequest: EVMTransactionRequest = {
+      from: request.from,
+      to: request.to,
+      value: request.value ?? BigInt(0),
+      data: contractInterface.encodeFunctionData(
+        request.functionName,
+        request.args ?? []
+      ),
+    }
+
+    await this.simulateContractCall(contractInterface, transactionRequest)
+
+    return await this.getMPCPayloadAndTransaction(
+      transactionRequest,
+      feeOptions
+    )
+  }
+
+  /**
+   * Gets the MPC payload of an EIP-7702 authorization delegating the authority (derived address) to the contract code at `address`.
+   * When the authority also sends the type 4 transaction, its nonce is incremented before the authorization is processed,
+   * so `executedByAuthority` must be set to sign the next nonce.
+   */
+  async getAuthorizationMPCPayload(request: EVMAuthorizationRequest): Promise<{
+    authorization: ethers.AuthorizationRequest
+    mpcPayloads: MPCPayloads
+  }> {
+    const nonce =
+      request.nonce ??
+      BigInt(
+        await this.provider.getTransactionCount(request.authority, 'pending')
+      ) + BigInt(request.executedByAuthority ? 1 : 0)
+
+    const authorization: ethers.AuthorizationRequest = {
+      address: request.address,
+      nonce,
+      chainId: request.chainId ?? (await this.provider.getNetwork()).chainId,
+    }
+
+    return {
+      authorization,
+      mpcPayloads: [
+        {
+          index: 0,
+          payload: ethers.getBytes(ethers.hashAuthorization(authorization)),
+        },
+      ],
+    }
+  }
+
+  /**
+   * Attaches the MPC signature to an authorization, the result goes in the authorizationList of a type 4 transaction
+   */
+  addSignatureToAuthorization({
+    authorization,
+    mpcSignatures,
+    publicKey,
+  }: {
+    authorization: ethers.AuthorizationRequest
+    mpcSignatures: MPCSignature[]
+    publicKey: string
+  }): ethers.AuthorizationLike {
+    verifyMPCSignatures({
+      mpcPayloads: [
+        {
+          index: 0,
+          payload: ethers.getBytes(ethers.hashAuthorization(authorization)),
+        },
+      ],
+      mpcSignatures,
+      publicKey,
+    })
+
+    return {
+      address: ethers.getAddress(authorization.address as string),
+      nonce: authorization.nonce ?? 0,
+      chainId: authorization.chainId ?? 0,
+      signature: this.parseSignature(toRSV(mpcSignatures[0])),
+    }
+  }
+
+  private async fetchReplaceableTransaction(
+    original: EVMUnsignedTransaction | string
+  ): Promise<ethers.Transaction> {
+    if (typeof original !== 'string') {
+      return ethers.Transaction.from(original)
+    }
+
+    const response = await this.provider.getTransaction(original)
+    if (!response) {
+      throw new Error(`Transaction ${original} not found`)
+    }
+
+    if (response.blockNumber !== null) {
+      throw new Error(`Transaction ${original} is already mined`)
+    }
+
+    return ethers.Transaction.from({
+      type: response.type,
+      chainId: response.chainId,
+      nonce: response.nonce,
+      to: response.to,
+      data: response.data,
+      value: response.value,
+      gasLimit: response.gasLimit,
+      gasPrice: response.type < 2 ? response.gasPrice : undefined,
+      maxFeePerGas: response.maxFeePerGas,
+      maxPriorityFeePerGas: response.maxPriorityFeePerGas,
+      accessList: response.accessList,
+      authorizationList: response.authorizationList,
+    })
+  }
+
+  /**
+   * Gets fees high enough for the node to accept the replacement: the current market fees,
+   * or the original fees bumped by the minimum replacement percentage, whichever is higher
+   */
+  private async getReplacementFees(
+    original: ethers.Transaction,
+    gasLimit: bigint,
+    feeOptions: EVMFeeOptions = {}
+  ): Promise<
+    | { gasPrice: bigint }
+    | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  > {
+    const bump = (fee: bigint | null): bigint =>
+      ((fee ?? BigInt(0)) * BigInt(100 + EVM.MIN_REPLACEMENT_BUMP_PERCENT) +
+        BigInt(99)) /
+      BigInt(100)
+    const max = (a: bigint, b: bigint): bigint => (a > b ? a : b)
+
+    const checkMaxFee = (maxFeePerGas: bigint): void => {
+      if (
+        feeOptions.maxFee !== undefined &&
+        maxFeePerGas * gasLimit > feeOptions.maxFee
+      ) {
+        throw new Error(
+          `Max fee of ${feeOptions.maxFee} wei is too low to replace the transaction`
+        )
+      }
+    }
+
+    if (original.type === 0 || original.type === 1) {
+      const { gasPrice } = await this.provider.getFeeData()
+      const replacementGasPrice = max(
+        gasPrice ?? BigInt(0),
+        bump(original.gasPrice)
+      )
+      checkMaxFee(replacementGasPrice)
+
+      return { gasPrice: replacementGasPrice }
+    }
+
+    const presets = await fetchEVMFeePresets(this.provider)
+    const feeData = await this.provider.getFeeData()
+    const market = presets?.[feeOptions.strategy ?? 'standard'] ?? {
+      maxFeePerGas: feeData.maxFeePerGas ?? BigInt(0),
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? BigInt(0),
+    }
+
+    const maxPriorityFeePerGas = max(
+      market.maxPriorityFeePerGas,
+      bump(original.maxPriorityFeePerGas)
+    )
+    const maxFeePerGas = max(
+      max(market.maxFeePerGas, bump(original.maxFeePerGas)),
+      maxPriorityFeePerGas
+    )
+    checkMaxFee(maxFeePerGas)
+
+    return { maxFeePerGas, maxPriorityFeePerGas }
+  }
+
+  /**
+   * Gets the MPC payload of a replacement for a pending transaction: same call and nonce with bumped fees.
+   *
+   * @param original - The unsigned transaction previously stored, or the hash of the broadcast transaction
+   */
+  async getSpeedUpMPCPayloadAndTransaction(
+    original: EVMUnsignedTransaction | string,
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const originalTransaction = await this.fetchReplaceableTransaction(original)
+    const gasLimit = originalTransaction.gasLimit
+
+    const transaction: EVMUnsignedTransaction = {
+      type: originalTransaction.type,
+      chainId: originalTransaction.chainId,
+      nonce: originalTransaction.nonce,
+      to: originalTransaction.to,
+      data: originalTransaction.data,
+      value: originalTransaction.value,
+      gasLimit,
+      accessList:
+        originalTransaction.type !== 0
+          ? originalTransaction.accessList
+          : undefined,
+      authorizationList: originalTransaction.authorizationList,
+      ...(await this.getReplacementFees(
+        originalTransaction,
+        gasLimit,
+        feeOptions
+      )),
+    }
+
+    return {
+      transaction,
+      mpcPayloads: [{ index: 0, payload: this.hashTransaction(transaction) }],
+    }
+  }
+
+  /**
+   * Gets the MPC payload of a zero value transfer to `from` at the nonce of a pending transaction, cancelling it once mined.
+   *
+   * @param original - The unsigned transaction previously stored, or the hash of the broadcast transaction
+   * @param from - The derived address that sent the original transaction
+   */
+  async getCancelMPCPayloadAndTransaction(
+    original: EVMUnsignedTransaction | string,
+    from: string,
+    feeOptions?: EVMFeeOptions
+  ): Promise<{
+    transaction: EVMUnsignedTransaction
+    mpcPayloads: MPCPayloads
+  }> {
+    const originalTransaction = await this.fetchReplaceableTransaction(original)
+    const gasLimit = BigInt(21000)
+
+    // Type 4 transactions can't be sent without authorizations, a plain EIP-1559 transfer replaces them
+    const type = originalTransaction.type === 4 ? 2 : originalTransaction.type
+
+    const transaction: EVMUnsignedTransaction = {
+      type,
+      chainId: originalTransaction.chainId,
+      nonce: originalTransaction.nonce,
+      to: from,
+      data: '0x',
+      value: BigInt(0),
+      gasLimit,
+      ...(await this.getReplacementFees(
+        originalTransaction,
+        gasLimit,
+        feeOptions
+      )),
+    }
+
+    return {
+      transaction,
+      mpcPayloads: [{ index: 0, payload: this.hashTransaction(transaction) }],
+    }
+  }
+
+  private async fetchRevertReason(
+    transactionHash: string,
+    blockNumber: number
+  ): Promise<string> {
+    const transaction = await this.provider.getTransaction(transactionHash)
+    if (!transaction) {
+      return 'execution reverted'
+    }
+
+    // Replaying the call on the state of the block recovers the revert reason in most cases
+    try {
+      await this.provider.call({
+        from: transaction.from,
+        to: transaction.to,
+        data: transaction.data,
+        value: transaction.value,
+        gasLimit: transaction.gasLimit,
+        blockTag: blockNumber,
+      })
+    } catch (error) {
+      if (ethers.isCallException(error) && error.reason) {
+        return error.reason
+      }
+    }
+
+    return 'execution reverted'
+  }
+
+  async waitForConfirmation(
+    transactionHash: string,
+    options?: WaitForConfirmationOptions
+  ): Promise<TransactionStatus> {
+    // Sender and nonce of the transaction once seen in the mempool, to tell a dropped transaction from a replaced one
+    let sent: { from: string; nonce: number } | undefined
+
+    const fetchStatus = async (): Promise<TransactionStatus> => {
+      const receipt = await this.provider.getTransactionReceipt(transactionHash)
+
+      if (receipt) {
+        if (receipt.status === 0) {
+          return {
+            status: 'failed',
+            reason: await this.fetchRevertReason(
+              transactionHash,
+              receipt.blockNumber
+            ),
+            blockNumber: receipt.blockNumber,
+          }
+        }
+
+        return {
+          status: 'confirmed',
+          confirmations: await receipt.confirmations(),
+          blockNumber: receipt.blockNumber,
+        }
+      }
+
+      const transaction = await this.provider.getTransaction(transactionHash)
+      if (transaction) {
+        sent = { from: transaction.from, nonce: transaction.nonce }
+        return { status: 'pending' }
+      }
+
+      // Not seen yet, it may still be propagating to the node
+      if (!sent) {
+        return { status: 'pending' }
+      }
+
+      const minedNonce = await this.provider.getTransactionCount(
+        sent.from,
+        'latest'
+      )
+
+      if (minedNonce <= sent.nonce) {
+        return { status: 'dropped' }
+      }
+
+      // The nonce may have been used by this very transaction, mined since the receipt check
+      return (await this.provider.getTransactionReceipt(transactionHash))
+        ? { status: 'pending' }
+        : { status: 'replaced' }
+    }
+
+    return await pollTransactionStatus(fetchStatus, options)
+  }
 }
@@ -0,0 +1,339 @@
+import { ethers } from 'ethers'
+
+import { EVMFailoverError } from './errors'
+import { type EVMFailoverOptions, type EVMRpcEndpoint } from './types'
+
+interface Endpoint {
+  url: string
+  provider: ethers.JsonRpcProvider
+  unhealthyUntil: number
+}
+
+// Errors returned the same way by every node, failing over would only repeat them
+const DETERMINISTIC_ERROR_CODES: ethers.ErrorCode[] = [
+  'CALL_EXCEPTION',
+  'INSUFFICIENT_FUNDS',
+  'NONCE_EXPIRED',
+  'REPLACEMENT_UNDERPRICED',
+]
+
+// JSON-RPC error code of a request with invalid params, ethers doesn't map it to an error code
+const INVALID_PARAMS_RPC_CODE = -32602
+
+const isDeterministicError = (error: unknown): boolean =>
+  DETERMINISTIC_ERROR_CODES.some((code) => ethers.isError(error, code)) ||
+  (ethers.isError(error, 'UNKNOWN_ERROR') &&
+    (error.error as { code?: number } | undefined)?.code ===
+      INVALID_PARAMS_RPC_CODE)
+
+/**
+ * Provider spreading requests over several JSON-RPC endpoints.
+ * Requests go to the healthy endpoint with the lowest priority and fail over to the next one on error or timeout,
+ * balance and nonce reads require a quorum of endpoints to agree, and transactions are broadcast to every healthy endpoint.
+ */
+export class EVMFailoverProvider extends ethers.AbstractProvider {
+  private readonly endpoints: Endpoint[]
+  private readonly timeout: number
+  private readonly quorum: number
+  private readonly cooldown: number
+  private readonly healthCheckInterval: number
+  private readonly maxBlockLag: number
+  private network: ethers.Network | undefined
+  private networkDetection: Promise<ethers.Network> | undefined
+  private lastHealthCheck = 0
+
+  constructor(endpoints: EVMRpcEndpoint[], options: EVMFailoverOptions = {}) {
+    super()
+
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required')
+    }
+
+    this.timeout = options.timeout ?? 5000
+    this.quorum = options.quorum ?? 1
+    this.cooldown = options.cooldown ?? 30000
+    this.healthCheckInterval = options.healthCheckInterval ?? 60000
+    this.maxBlockLag = options.maxBlockLag ?? 5
+
+    if (this.quorum < 1 || this.quorum > endpoints.length) {
+      throw new Error(
+        `Quorum must be between 1 and the number of endpoints (${endpoints.length})`
+      )
+    }
+
+    this.endpoints = [...endpoints]
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+      .map((endpoint) => ({
+        url: endpoint.url,
+        provider: this.createEndpointProvider(endpoint.url),
+        unhealthyUntil: 0,
+      }))
+  }
+
+  private createEndpointProvider(url: string): ethers.JsonRpcProvider {
+    return this.network
+      ? new ethers.JsonRpcProvider(url, this.network, {
+          staticNetwork: this.network,
+        })
+      : new ethers.JsonRpcProvider(url)
+  }
+
+  // Other requests may still be in flight on the provider of the endpoint, it is kept
+  private markUnhealthy(endpoint: Endpoint): void {
+    endpoint.unhealthyUntil = Date.now() + this.cooldown
+  }
+
+  /**
+   * Endpoints in priority order, skipping the ones in cooldown unless none is left
+   */
+  private getHealthyEndpoints(): Endpoint[] {
+    const now = Date.now()
+    const healthy = this.endpoints.filter(
+      (endpoint) => endpoint.unhealthyUntil <= now
+    )
+
+    return healthy.length > 0 ? healthy : this.endpoints
+  }
+
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<never>((_resolve, reject) => {
+          timer = setTimeout(() => {
+            reject(new Error(`Request timed out after ${this.timeout}ms`))
+          }, this.timeout)
+        }),
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Checks every endpoint answers and is not lagging behind the highest known block
+   */
+  async checkHealth(): Promise<void> {
+    this.lastHealthCheck = Date.now()
+
+    const blockNumbers = await Promise.all(
+      this.endpoints.map(
+        async (endpoint) =>
+          await this.withTimeout(endpoint.provider.getBlockNumber()).catch(
+            () => undefined
+          )
+      )
+    )
+
+    const highestBlock = Math.max(
+      ...blockNumbers.map((blockNumber) => blockNumber ?? -1)
+    )
+
+    this.endpoints.forEach((endpoint, i) => {
+      const blockNumber = blockNumbers[i]
+      if (
+        blockNumber === undefined ||
+        highestBlock - blockNumber > this.maxBlockLag
+      ) {
+        this.markUnhealthy(endpoint)
+      } else {
+        endpoint.unhealthyUntil = 0
+      }
+    })
+  }
+
+  private async checkHealthIfDue(): Promise<void> {
+    if (
+      this.endpoints.length > 1 &&
+      Date.now() - this.lastHealthCheck >= this.healthCheckInterval
+    ) {
+      await this.checkHealth()
+    }
+  }
+
+  /**
+   * Runs the request on the healthy endpoints one after the other until one succeeds,
+   * throws an EVMFailoverError with the error of each endpoint when they all fail
+   */
+  private async execute<T>(
+    request: (provider: ethers.JsonRpcProvider) => Promise<T>
+  ): Promise<T> {
+    const errors: Array<{ url: string; error: unknown }> = []
+
+    for (const endpoint of this.getHealthyEndpoints()) {
+      try {
+        return await this.withTimeout(request(endpoint.provider))
+      } catch (error) {
+        if (isDeterministicError(error)) {
+          throw error
+        }
+
+        errors.push({ url: endpoint.url, error })
+        this.markUnhealthy(endpoint)
+      }
+    }
+
+    throw new EVMFailoverError(errors)
+  }
+
+  /**
+   * Runs the request on every healthy endpoint and returns the first result returned by a quorum of them
+   */
+  private async executeWithQuorum<T>(
+    request: (provider: ethers.JsonRpcProvider) => Promise<T>
+  ): Promise<T> {
+    if (this.quorum === 1) {
+      return await this.execute(request)
+    }
+
+    const endpoints = this.getHealthyEndpoints()
+    if (endpoints.length < this.quorum) {
+      throw new Error(
+        `Quorum of ${this.quorum} not reachable, only ${endpoints.length} healthy endpoints`
+      )
+    }
+
+    const results = await Promise.all(
+      endpoints.map(async (endpoint) => {
+        try {
+          return { value: await this.withTimeout(request(endpoint.provider)) }
+        } catch (error) {
+          // Reverts and invalid params come back the same from every node, the endpoint is fine
+          if (!isDeterministicError(error)) {
+            this.markUnhealthy(endpoint)
+          }
+          return undefined
+        }
+      })
+    )
+
+    const votes = new Map<string, { value: T; count: number }>()
+    for (const result of results) {
+      if (result === undefined) {
+        continue
+      }
+
+      const key = String(result.value)
+      const vote = votes.get(key) ?? { value: result.value, count: 0 }
+      vote.count++
+
+      if (vote.count >= this.quorum) {
+        return vote.value
+      }
+
+      votes.set(key, vote)
+    }
+
+    throw new Error(
+      `Quorum of ${this.quorum} not reached, results: ${results
+        .map((result) => (result ? String(result.value) : 'error'))
+        .join(', ')}`
+    )
+  }
+
+  /**
+   * Broadcasts to every healthy endpoint, nodes returning different hashes or already knowing the transaction
+   * all resolve to the hash of the signed transaction
+   */
+  private async broadcast(signedTransaction: string): Promise<string> {
+    const hash = ethers.keccak256(signedTransaction)
+
+    const results = await Promise.all(
+      this.getHealthyEndpoints().map(async (endpoint) => {
+        try {
+          await this.withTimeout(
+            endpoint.provider.send('eth_sendRawTransaction', [
+              signedTransaction,
+            ])
+          )
+          return undefined
+        } catch (error) {
+          if (
+            error instanceof Error &&
+            error.message.toLowerCase().includes('already known')
+          ) {
+            return undefined
+          }
+
+          if (!isDeterministicError(error)) {
+            this.markUnhealthy(endpoint)
+          }
+          return error
+        }
+      })
+    )
+
+    if (results.some((error) => error === undefined)) {
+      return hash
+    }
+
+    throw results[0]
+  }
+
+  async _detectNetwork(): Promise<ethers.Network> {
+    // Concurrent first requests share the detection, the endpoint providers are only replaced once
+    this.networkDetection ??= this.detectEndpointsNetwork()
+
+    return await this.networkDetection
+  }
+
+  private async detectEndpointsNetwork(): Promise<ethers.Network> {
+    try {
+      this.network = await this.execute(
+        async (provider) => await provider.getNetwork()
+      )
+      return this.network
+    } catch (error) {
+      this.networkDetection = undefined
+      throw error
+    } finally {
+      // Endpoints don't need to detect the network on their own anymore, and the ones that failed to would keep retrying.
+      // Every request waits for the detection, none is in flight on them.
+      this.endpoints.forEach((endpoint) => {
+        endpoint.provider.destroy()
+        endpoint.provider = this.createEndpointProvider(endpoint.url)
+      })
+    }
+  }
+
+  async _perform<T = unknown>(req: ethers.PerformActionRequest): Promise<T> {
+    // The endpoint providers are replaced once the network is detected, no request must be in flight on them
+    await this.getNetwork()
+    await this.checkHealthIfDue()
+
+    switch (req.method) {
+      case 'getBalance':
+      case 'getTransactionCount':
+        return await this.executeWithQuorum(
+          async (provider) => (await provider._perform(req)) as T
+        )
+      case 'broadcastTransaction':
+        return (await this.broadcast(req.signedTransaction)) as T
+      default:
+        return await this.execute(
+          async (provider) => (await provider._perform(req)) as T
+        )
+    }
+  }
+
+  /**
+   * Sends a raw JSON-RPC request with failover, for methods not covered by the Provider interface (e.g. eth_feeHistory)
+   */
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    await this.getNetwork()
+    await this.checkHealthIfDue()
+
+    return await this.execute(
+      async (provider) => await provider.send(method, params)
+    )
+  }
+
+  destroy(): void {
+    this.endpoints.forEach((endpoint) => {
+      endpoint.provider.destroy()
+    })
+    super.destroy()
+  }
+}
@@ -0,0 +1,69 @@
+import { type ethers } from 'ethers'
+
+/**
+ * A nonce handed out by EVMNonceManager, only its own reservation can release it
+ */
+export interface EVMNonceReservation {
+  nonce: number
+  /** Frees the nonce for the next transaction, if it wasn't reserved again since */
+  release: () => void
+}
+
+/**
+ * Hands out nonces for transactions prepared concurrently from the same address.
+ * Nonces are reserved locally on top of the node pending count, a single instance can be shared
+ * across EVM instances (and chains) so a backend never assigns the same nonce twice.
+ */
+export class EVMNonceManager {
+  private readonly reservedNonces = new Map<
+    string,
+    Map<number, EVMNonceReservation>
+  >()
+
+  private static async getKey(
+    provider: ethers.Provider,
+    address: string
+  ): Promise<string> {
+    const { chainId } = await provider.getNetwork()
+    return `${chainId.toString()}:${address.toLowerCase()}`
+  }
+
+  /**
+   * Reserves the next available nonce for the address, to release if the transaction is never broadcast
+   */
+  async reserveNonce(
+    provider: ethers.Provider,
+    address: string
+  ): Promise<EVMNonceReservation> {
+    const key = await EVMNonceManager.getKey(provider, address)
+    const pendingNonce = await provider.getTransactionCount(address, 'pending')
+
+    const reserved =
+      this.reservedNonces.get(key) ?? new Map<number, EVMNonceReservation>()
+    this.reservedNonces.set(key, reserved)
+
+    // Nonces below the pending count are already known by the node, no need to track them
+    reserved.forEach((_, nonce) => {
+      if (nonce < pendingNonce) {
+        reserved.delete(nonce)
+      }
+    })
+
+    let nonce = pendingNonce
+    while (reserved.has(nonce)) {
+      nonce++
+    }
+
+    const reservation: EVMNonceReservation = {
+      nonce,
+      release: () => {
+        if (reserved.get(nonce) === reservation) {
+          reserved.delete(nonce)
+        }
+      },
+    }
+    reserved.set(nonce, reservation)
+
+    return reservation
+  }
+}
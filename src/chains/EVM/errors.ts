@@ -0,0 +1,28 @@
+export class EVMCallRevertedError extends Error {
+  readonly reason: string
+  readonly data: string | null
+
+  constructor(reason: string, data: string | null) {
+    super(`Contract call reverted: ${reason}`)
+    this.name = 'EVMCallRevertedError'
+    this.reason = reason
+    this.data = data
+  }
+}
+
+export class EVMFailoverError extends Error {
+  readonly errors: Array<{ url: string; error: unknown }>
+
+  constructor(errors: Array<{ url: string; error: unknown }>) {
+    super(
+      `All RPC endpoints failed: ${errors
+        .map(
+          ({ url, error }) =>
+            `${url} (${error instanceof Error ? error.message : String(error)})`
+        )
+        .join(', ')}`
+    )
+    this.name = 'EVMFailoverError'
+    this.errors = errors
+  }
+}
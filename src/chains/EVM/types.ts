@@ -1,19 +1,152 @@
 import type * as ethers from 'ethers'
 import { type ChainProvider, type NearAuthentication } from '../types'
 import { type KeyDerivationPath } from '../../signature'
+import { type EVMNonceManager } from './NonceManager'
 
 export type EVMUnsignedTransaction = ethers.TransactionLike
 
+/**
+ * 0: Legacy (EIP-155), 1: Access list (EIP-2930), 2: Dynamic fee (EIP-1559), 4: Set code (EIP-7702)
+ */
+export type EVMTransactionType = 0 | 1 | 2 | 4
+
 export type EVMTransactionRequest = Omit<ethers.TransactionLike, 'from'> & {
   from: string
 }
 
+export type EVMMessage = string | Uint8Array
+
+export interface EVMTypedData {
+  domain: ethers.TypedDataDomain
+  types: Record<string, ethers.TypedDataField[]>
+  message: Record<string, unknown>
+}
+
+export interface EVMContractCallRequest {
+  from: string
+  to: string
+  abi: ethers.InterfaceAbi
+  functionName: string
+  args?: unknown[]
+  value?: ethers.BigNumberish
+}
+
+export interface EVMAuthorizationRequest {
+  /** Contract whose code is delegated to */
+  address: string
+  /** Derived address signing the authorization */
+  authority: string
+  /** Defaults to the provider chain id, 0 allows the authorization on every chain */
+  chainId?: bigint
+  /** Defaults to the authority pending nonce */
+  nonce?: bigint
+  /** Whether the authority is also the sender of the type 4 transaction */
+  executedByAuthority?: boolean
+}
+
 export type EVMChainConfigWithProviders = ChainProvider
 
+export interface EVMRpcEndpoint {
+  url: string
+  /** Endpoints with the lowest priority are tried first, defaults to 0 */
+  priority?: number
+}
+
+export interface EVMFailoverOptions {
+  /** Time in ms before a request fails over to the next endpoint, defaults to 5000 */
+  timeout?: number
+  /** Number of endpoints that must return the same balance or nonce, defaults to 1 */
+  quorum?: number
+  /** Time in ms a failing endpoint is skipped, defaults to 30000 */
+  cooldown?: number
+  /** Time in ms between two health checks, defaults to 60000 */
+  healthCheckInterval?: number
+  /** Number of blocks an endpoint can lag behind the others before being skipped, defaults to 5 */
+  maxBlockLag?: number
+}
+
+export type EVMFeeStrategy = 'slow' | 'standard' | 'fast'
+
+export interface EVMFeePreset {
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+export interface EVMFeeOptions {
+  /** Fee preset computed from eth_feeHistory percentiles, defaults to standard */
+  strategy?: EVMFeeStrategy
+  /** Upper bound in wei for the total fee (maxFeePerGas * gasLimit) */
+  maxFee?: bigint
+  /** Safety multiplier applied to the estimated gas limit, defaults to 1.1 */
+  gasLimitMultiplier?: number
+}
+
 export interface EVMRequest {
   transaction: EVMTransactionRequest
   chainConfig: EVMChainConfigWithProviders
   nearAuthentication: NearAuthentication
   fastAuthRelayerUrl?: string
   derivationPath: KeyDerivationPath
+  feeOptions?: EVMFeeOptions
+  /** Shared across requests so concurrent transactions from the same address get distinct nonces */
+  nonceManager?: EVMNonceManager
+}
+
+export type UserOperationVersion = '0.6' | '0.7'
+
+export interface UserOperationV06 {
+  sender: string
+  nonce: bigint
+  initCode: string
+  callData: string
+  callGasLimit: bigint
+  verificationGasLimit: bigint
+  preVerificationGas: bigint
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  paymasterAndData: string
+  signature: string
+}
+
+export interface UserOperationV07 {
+  sender: string
+  nonce: bigint
+  factory?: string
+  factoryData?: string
+  callData: string
+  callGasLimit: bigint
+  verificationGasLimit: bigint
+  preVerificationGas: bigint
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  paymaster?: string
+  paymasterVerificationGasLimit?: bigint
+  paymasterPostOpGasLimit?: bigint
+  paymasterData?: string
+  signature: string
+}
+
+export type UserOperation = UserOperationV06 | UserOperationV07
+
+/**
+ * Fields used to build a UserOperation for both EntryPoint versions, factory and paymaster
+ * are packed into initCode and paymasterAndData for v0.6
+ */
+export interface UserOperationRequest {
+  sender: string
+  callData: string
+  nonce?: bigint
+  factory?: string
+  factoryData?: string
+  paymaster?: string
+  paymasterData?: string
+  feeStrategy?: EVMFeeStrategy
+}
+
+export interface UserOperationGasEstimate {
+  preVerificationGas: bigint
+  verificationGasLimit: bigint
+  callGasLimit: bigint
+  paymasterVerificationGasLimit?: bigint
+  paymasterPostOpGasLimit?: bigint
 }
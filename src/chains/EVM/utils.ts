@@ -1,21 +1,158 @@
 import { ethers } from 'ethers'
 
+import { type EVMFailoverProvider } from './FailoverProvider'
+import {
+  type EVMFeeOptions,
+  type EVMFeePreset,
+  type EVMFeeStrategy,
+  type EVMTransactionRequest,
+} from './types'
+
+// Number of past blocks used to compute the priority fee percentiles
+const FEE_HISTORY_BLOCK_COUNT = 20
+
+const FEE_HISTORY_PERCENTILES: Record<EVMFeeStrategy, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90,
+}
+
+const FEE_STRATEGIES = Object.keys(FEE_HISTORY_PERCENTILES) as EVMFeeStrategy[]
+
+const DEFAULT_GAS_LIMIT_MULTIPLIER = 1.1
+
+interface FeeHistoryResponse {
+  baseFeePerGas: string[]
+  reward?: string[][]
+}
+
+type EVMRpcProvider = ethers.JsonRpcProvider | EVMFailoverProvider
+
+// Helpers accept an endpoint URL or the provider of an EVM instance, so they share its failover
+const toProvider = (provider: string | EVMRpcProvider): EVMRpcProvider =>
+  typeof provider === 'string' ? new ethers.JsonRpcProvider(provider) : provider
+
+const median = (values: bigint[]): bigint => {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)] ?? BigInt(0)
+}
+
+/**
+ * Fetches the slow, standard and fast fee presets from the eth_feeHistory percentiles.
+ * The max fee per gas allows the base fee to double before the transaction becomes invalid.
+ *
+ * @param providerOrUrl - The EVM JSON-RPC endpoint or provider
+ * @returns The fee presets, or undefined if the chain doesn't support EIP-1559 or the node eth_feeHistory
+ */
+export async function fetchEVMFeePresets(
+  providerOrUrl: string | EVMRpcProvider
+): Promise<Record<EVMFeeStrategy, EVMFeePreset> | undefined> {
+  const provider = toProvider(providerOrUrl)
+
+  let feeHistory: FeeHistoryResponse
+  try {
+    feeHistory = (await provider.send('eth_feeHistory', [
+      ethers.toQuantity(FEE_HISTORY_BLOCK_COUNT),
+      'latest',
+      FEE_STRATEGIES.map((strategy) => FEE_HISTORY_PERCENTILES[strategy]),
+    ])) as FeeHistoryResponse
+  } catch (error) {
+    return undefined
+  }
+
+  // The last entry is the base fee of the next block
+  const nextBaseFee =
+    feeHistory.baseFeePerGas?.[feeHistory.baseFeePerGas.length - 1]
+  const rewards = feeHistory.reward ?? []
+  if (!nextBaseFee || rewards.length === 0) {
+    return undefined
+  }
+
+  const baseFeePerGas = BigInt(nextBaseFee)
+
+  const getPreset = (strategy: EVMFeeStrategy): EVMFeePreset => {
+    const percentileIndex = FEE_STRATEGIES.indexOf(strategy)
+    const maxPriorityFeePerGas = median(
+      rewards.map((blockRewards) => BigInt(blockRewards[percentileIndex]))
+    )
+
+    return {
+      maxFeePerGas: baseFeePerGas * BigInt(2) + maxPriorityFeePerGas,
+      maxPriorityFeePerGas,
+    }
+  }
+
+  return {
+    slow: getPreset('slow'),
+    standard: getPreset('standard'),
+    fast: getPreset('fast'),
+  }
+}
+
+const estimateGasLimit = async (
+  provider: EVMRpcProvider,
+  transaction: ethers.TransactionLike,
+  gasLimitMultiplier = DEFAULT_GAS_LIMIT_MULTIPLIER
+): Promise<bigint> => {
+  if (gasLimitMultiplier < 1) {
+    throw new Error('Gas limit multiplier must be greater than or equal to 1')
+  }
+
+  const estimatedGas = await provider.estimateGas(transaction)
+  return (
+    (estimatedGas * BigInt(Math.round(gasLimitMultiplier * 100))) / BigInt(100)
+  )
+}
+
 export async function fetchEVMFeeProperties(
-  providerUrl: string,
-  transaction: ethers.TransactionLike
+  providerOrUrl: string | EVMRpcProvider,
+  transaction: ethers.TransactionLike,
+  options: EVMFeeOptions = {}
 ): Promise<{
   gasLimit: bigint
   maxFeePerGas: bigint
   maxPriorityFeePerGas: bigint
   maxFee: bigint
 }> {
-  const provider = new ethers.JsonRpcProvider(providerUrl)
-  const gasLimit = await provider.estimateGas(transaction)
-  const feeData = await provider.getFeeData()
+  const { strategy = 'standard', maxFee: maxFeeCap } = options
+
+  const provider = toProvider(providerOrUrl)
+  const gasLimit = await estimateGasLimit(
+    provider,
+    transaction,
+    options.gasLimitMultiplier
+  )
+
+  const presets = await fetchEVMFeePresets(provider)
+
+  let { maxFeePerGas, maxPriorityFeePerGas } = presets?.[strategy] ?? {}
+
+  if (maxFeePerGas === undefined || maxPriorityFeePerGas === undefined) {
+    const feeData = await provider.getFeeData()
+
+    if (feeData.maxFeePerGas == null || feeData.maxPriorityFeePerGas == null) {
+      throw new Error('Failed to estimate EIP-1559 fees for the transaction')
+    }
+
+    maxFeePerGas = feeData.maxFeePerGas
+    maxPriorityFeePerGas = feeData.maxPriorityFeePerGas
+  }
+
+  if (maxFeeCap !== undefined && maxFeePerGas * gasLimit > maxFeeCap) {
+    const cappedMaxFeePerGas = maxFeeCap / gasLimit
+    // Both the presets and getFeeData allow the base fee to double, so we can recover the current one
+    const baseFeePerGas = (maxFeePerGas - maxPriorityFeePerGas) / BigInt(2)
 
-  const maxFeePerGas = feeData.maxFeePerGas ?? ethers.parseUnits('10', 'gwei')
-  const maxPriorityFeePerGas =
-    feeData.maxPriorityFeePerGas ?? ethers.parseUnits('10', 'gwei')
+    if (cappedMaxFeePerGas < baseFeePerGas) {
+      throw new Error(
+        `Max fee of ${maxFeeCap} wei is too low for the current network fees`
+      )
+    }
+
+    maxFeePerGas = cappedMaxFeePerGas
+    maxPriorityFeePerGas =
+      maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas
+  }
 
   return {
     gasLimit,
@@ -24,3 +161,66 @@ export async function fetchEVMFeeProperties(
     maxFee: maxFeePerGas * gasLimit,
   }
 }
+
+/**
+ * Fetches the gas price based fees used by legacy (type 0) and EIP-2930 (type 1) transactions.
+ * The fee strategy doesn't apply, the gas price is the one suggested by the node.
+ */
+export async function fetchEVMLegacyFeeProperties(
+  providerOrUrl: string | EVMRpcProvider,
+  transaction: ethers.TransactionLike,
+  options: Omit<EVMFeeOptions, 'strategy'> = {}
+): Promise<{
+  gasLimit: bigint
+  gasPrice: bigint
+  maxFee: bigint
+}> {
+  const provider = toProvider(providerOrUrl)
+  const gasLimit = await estimateGasLimit(
+    provider,
+    transaction,
+    options.gasLimitMultiplier
+  )
+
+  const { gasPrice } = await provider.getFeeData()
+  if (gasPrice == null) {
+    throw new Error('Failed to estimate the gas price for the transaction')
+  }
+
+  const maxFee = gasPrice * gasLimit
+  if (options.maxFee !== undefined && maxFee > options.maxFee) {
+    throw new Error(
+      `Max fee of ${options.maxFee} wei is too low for the current network fees`
+    )
+  }
+
+  return {
+    gasLimit,
+    gasPrice,
+    maxFee,
+  }
+}
+
+/**
+ * Generates the EIP-2930 access list of a transaction through eth_createAccessList.
+ */
+export async function fetchEVMAccessList(
+  providerOrUrl: string | EVMRpcProvider,
+  transaction: EVMTransactionRequest
+): Promise<ethers.AccessList> {
+  const provider = toProvider(providerOrUrl)
+  const { accessList } = (await provider.send('eth_createAccessList', [
+    {
+      from: transaction.from,
+      to: transaction.to ?? undefined,
+      data: transaction.data ?? undefined,
+      value:
+        transaction.value != null
+          ? ethers.toQuantity(transaction.value)
+          : undefined,
+    },
+    'latest',
+  ])) as { accessList: ethers.AccessListish }
+
+  return ethers.accessListify(accessList)
+}
@@ -32,3 +32,28 @@ export type Response = SuccessResponse | FailureResponse
 export type NearNetworkIds = 'mainnet' | 'testnet'
 
 export type MPCPayloads = Array<{ index: number; payload: Uint8Array }>
+
+/**
+ * Amount in the smallest unit of the asset (wei, satoshi, uatom...), with the decimals of its display unit
+ */
+export interface Amount {
+  value: bigint
+  decimals: number
+}
+
+export type TransactionStatus =
+  | { status: 'pending' }
+  | { status: 'confirmed'; confirmations: number; blockNumber: number }
+  | { status: 'failed'; reason: string; blockNumber?: number }
+  | { status: 'dropped' }
+  | { status: 'replaced'; replacementHash?: string }
+
+export interface WaitForConfirmationOptions {
+  /** Number of confirmations to wait for, defaults to 1 */
+  confirmations?: number
+  /** Time in ms after which the last known status is returned, waits indefinitely by default */
+  timeout?: number
+  /** Time in ms between two status checks, defaults to 5000 */
+  pollingInterval?: number
+  signal?: AbortSignal
+}
@@ -0,0 +1,207 @@
+import { ChainSignaturesContract } from '../contracts'
+import {
+  type Amount,
+  type ChainSignatureContracts,
+  type NearNetworkIds,
+  type TransactionStatus,
+  type WaitForConfirmationOptions,
+} from './types'
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new Error('Waiting for confirmation was aborted')
+  }
+}
+
+const sleep = async (ms: number, signal?: AbortSignal): Promise<void> => {
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(new Error('Waiting for confirmation was aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Resolves with the promise, or undefined once the remaining time elapsed, rejects when the signal is aborted
+ */
+const withDeadline = async <T>(
+  promise: Promise<T>,
+  remaining: number,
+  signal?: AbortSignal
+): Promise<T | undefined> => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let onAbort: (() => void) | undefined
+
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<undefined>((resolve, reject) => {
+        if (remaining !== Infinity) {
+          timer = setTimeout(() => {
+            resolve(undefined)
+          }, remaining)
+        }
+
+        onAbort = () => {
+          reject(new Error('Waiting for confirmation was aborted'))
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+}
+
+const isFinalStatus = (
+  status: TransactionStatus,
+  confirmations: number
+): boolean =>
+  status.status === 'confirmed'
+    ? status.confirmations >= confirmations
+    : status.status !== 'pending'
+
+/**
+ * Polls the status of a transaction until it is confirmed enough times, failed, dropped or replaced.
+ * On timeout the last known status is returned, pending if none was fetched yet, aborting the signal rejects the promise.
+ *
+ * @param fetchStatus - Fetches the current status of the transaction from the chain
+ * @param options - The confirmation options
+ * @returns The final status, or the last known one on timeout
+ */
+export async function pollTransactionStatus(
+  fetchStatus: () => Promise<TransactionStatus>,
+  {
+    confirmations = 1,
+    timeout,
+    pollingInterval = 5000,
+    signal,
+  }: WaitForConfirmationOptions = {}
+): Promise<TransactionStatus> {
+  const deadline = timeout !== undefined ? Date.now() + timeout : Infinity
+  let status: TransactionStatus = { status: 'pending' }
+
+  for (;;) {
+    throwIfAborted(signal)
+
+    // A request that hangs (e.g. without its own timeout) must not outlive the deadline or the signal
+    const fetched = await withDeadline(
+      fetchStatus(),
+      Math.max(deadline - Date.now(), 0),
+      signal
+    )
+    if (fetched === undefined) {
+      return status
+    }
+
+    status = fetched
+    const remaining = deadline - Date.now()
+
+    if (isFinalStatus(status, confirmations) || remaining <= 0) {
+      return status
+    }
+
+    await sleep(Math.min(pollingInterval, remaining), signal)
+  }
+}
+
+/**
+ * Parses a decimal string in display units (e.g. '1.5') into an amount in base units.
+ *
+ * @throws {Error} If the string is not a decimal number or has more decimals than the asset
+ */
+export function parseAmount(value: string, decimals: number): Amount {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim())
+  if (!match) {
+    throw new Error(`Invalid amount: ${value}`)
+  }
+
+  const [, whole, fraction = ''] = match
+  if (fraction.length > decimals) {
+    throw new Error(
+      `Invalid amount: ${value} has more than ${decimals} decimals`
+    )
+  }
+
+  return { value: BigInt(whole + fraction.padEnd(decimals, '0')), decimals }
+}
+
+/**
+ * Formats an amount in display units, without trailing zeros (e.g. '1.5')
+ */
+export function formatAmount({ value, decimals }: Amount): string {
+  const base = BigInt(10) ** BigInt(decimals)
+  const absolute = value < 0 ? -value : value
+  const fraction = (absolute % base)
+    .toString()
+    .padStart(decimals, '0')
+    .replace(/0+$/, '')
+
+  return `${value < 0 ? '-' : ''}${(absolute / base).toString()}${fraction ? `.${fraction}` : ''}`
+}
+
+/**
+ * Expresses an amount with other decimals, e.g. to check an amount is given in the unit of the chain.
+ *
+ * @throws {Error} If the conversion would lose precision
+ */
+export function convertAmount(amount: Amount, decimals: number): Amount {
+  if (decimals >= amount.decimals) {
+    return {
+      value: amount.value * BigInt(10) ** BigInt(decimals - amount.decimals),
+      decimals,
+    }
+  }
+
+  const divisor = BigInt(10) ** BigInt(amount.decimals - decimals)
+  if (amount.value % divisor !== BigInt(0)) {
+    throw new Error(
+      `Amount ${formatAmount(amount)} can't be expressed with ${decimals} decimals`
+    )
+  }
+
+  return { value: amount.value / divisor, decimals }
+}
+
+/**
+ * Creates a function returning the MPC root public key, fetched from the contract on first use unless given.
+ *
+ * @param config - The NEAR network and contract, and optionally the known root public key
+ * @returns A function resolving to the root public key in NAJ format
+ */
+export function createRootPublicKeyFetcher({
+  nearNetworkId,
+  contract,
+  rootPublicKey,
+}: {
+  nearNetworkId: NearNetworkIds
+  contract: ChainSignatureContracts
+  rootPublicKey?: string
+}): () => Promise<string> {
+  let cachedRootPublicKey = rootPublicKey
+
+  return async () => {
+    if (!cachedRootPublicKey) {
+      cachedRootPublicKey = await ChainSignaturesContract.getPublicKey({
+        networkId: nearNetworkId,
+        contract,
+      })
+    }
+
+    if (!cachedRootPublicKey) {
+      throw new Error('Failed to get root public key')
+    }
+
+    return cachedRootPublicKey
+  }
+}
@@ -17,6 +17,7 @@ import { parseSignedDelegateForRelayer } from '../../relayer'
 import { type KeyPair } from '@near-js/crypto'
 import { NEAR_MAX_GAS } from '../../signature/utils'
 import { getNearAccount } from '../utils'
+import { serializeKeyDerivationPath } from '../../kdf'
 import { transactionBuilder } from '../..'
 
 interface SignArgs {
@@ -99,14 +100,17 @@ export const ChainSignaturesContract = {
   }: {
     networkId: NearNetworkIds
     contract: ChainSignatureContracts
-    args: { path: string; predecessor: string }
+    args: { path: KeyDerivationPath; predecessor: string }
   }): Promise<string | undefined> => {
     const nearAccount = await getNearAccount({ networkId })
     const chainSignaturesContract = ChainSignaturesContract.getContract({
       account: nearAccount,
       contract,
     })
-    return await chainSignaturesContract.derived_public_key(args)
+    return await chainSignaturesContract.derived_public_key({
+      path: serializeKeyDerivationPath(args.path),
+      predecessor: args.predecessor,
+    })
   },
 
   sign: async ({
@@ -134,7 +138,7 @@ export const ChainSignaturesContract = {
 
     const mpcPayload = {
       payload: Array.from(ethers.getBytes(hashedTx)),
-      path,
+      path: serializeKeyDerivationPath(path),
       key_version: 0,
     }
 
@@ -1,32 +1,107 @@
-export type { NearNetworkIds, ChainSignatureContracts } from './chains/types'
-export type { SLIP044ChainId, KeyDerivationPath } from './signature/types'
+export type {
+  Amount,
+  NearNetworkIds,
+  ChainSignatureContracts,
+  TransactionStatus,
+  WaitForConfirmationOptions,
+} from './chains/types'
+export type {
+  SLIP044ChainId,
+  KeyDerivationPath,
+  CanonicalKeyDerivationPath,
+} from './signature/types'
+export {
+  SignatureVerificationError,
+  verifyMPCSignatures,
+} from './signature/verify'
 export { ChainSignaturesContract } from './contracts'
+export {
+  deriveChildPublicKey,
+  deriveEpsilon,
+  buildKeyDerivationPath,
+  parseKeyDerivationPath,
+  serializeKeyDerivationPath,
+} from './kdf'
 export * as signAndSend from './sign-and-send-methods'
 export * as transactionBuilder from './transaction-builder'
 export type { Chain } from './chains/Chain'
+export { parseAmount, formatAmount, convertAmount } from './chains/utils'
 
 // EVM
 export { EVM } from './chains/EVM/EVM'
+export { ERC20 } from './chains/EVM/ERC20'
+export { ERC721 } from './chains/EVM/ERC721'
+export { ERC1155 } from './chains/EVM/ERC1155'
+export { EVMCallRevertedError, EVMFailoverError } from './chains/EVM/errors'
+export {
+  EVMNonceManager,
+  type EVMNonceReservation,
+} from './chains/EVM/NonceManager'
+export { EVMFailoverProvider } from './chains/EVM/FailoverProvider'
+export { ERC4337, getUserOperationHash } from './chains/EVM/ERC4337'
 
-export { fetchEVMFeeProperties } from './chains/EVM/utils'
+export { fetchEVMFeeProperties, fetchEVMFeePresets } from './chains/EVM/utils'
 
 export type {
+  EVMAuthorizationRequest,
   EVMChainConfigWithProviders,
+  EVMContractCallRequest,
+  EVMFailoverOptions,
+  EVMFeeOptions,
+  EVMFeePreset,
+  EVMFeeStrategy,
+  EVMMessage,
+  EVMTypedData,
   EVMRequest,
+  EVMRpcEndpoint,
   EVMTransactionRequest,
+  EVMTransactionType,
   EVMUnsignedTransaction,
+  UserOperation,
+  UserOperationGasEstimate,
+  UserOperationRequest,
+  UserOperationV06,
+  UserOperationV07,
+  UserOperationVersion,
 } from './chains/EVM/types'
 
 // Bitcoin
 export { Bitcoin } from './chains/Bitcoin/Bitcoin'
 
 export { fetchBTCFeeProperties } from './chains/Bitcoin/utils'
+export {
+  branchAndBound,
+  largestFirst,
+  privacy,
+} from './chains/Bitcoin/coinselection'
+export { verifyBTCMessage } from './chains/Bitcoin/message'
 
 export type {
+  BTCAddressType,
   BTCChainConfigWithProviders,
+  BTCCoinSelectionOptions,
+  BTCCoinSelectionReport,
+  BTCCoinSelectionStrategy,
+  BTCCoinSelector,
+  BTCConsolidationRequest,
+  BTCCosignerKey,
+  BTCOutpoint,
+  BTCFeeBumpRequest,
+  BTCMessageRequest,
+  BTCMessageSignatureFormat,
+  BTCMultisigConfig,
+  BTCMultisigTransactionRequest,
+  BTCRecipient,
   BTCNetworkIds,
+  BTCPSBTFormat,
+  BTCSweepRequest,
+  BTCTimelockConfig,
+  BTCTimelockTransactionRequest,
+  BTCTimelockType,
+  BTCTimelockUnit,
   BitcoinRequest,
   BTCTransactionRequest,
+  BTCTransactionVsizes,
   BTCUnsignedTransaction,
 } from './chains/Bitcoin/types'
 
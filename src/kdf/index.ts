@@ -0,0 +1,2 @@
+export * from './kdf'
+export * from './path'
@@ -0,0 +1,67 @@
+import { SigningKey } from 'ethers'
+import { sha3_256 } from '@noble/hashes/sha3'
+import { bytesToHex } from '@noble/hashes/utils'
+import { base_encode } from 'near-api-js/lib/utils/serialize'
+
+import { type KeyDerivationPath } from '../signature/types'
+import { najToPubKey } from '../signature/utils'
+import { serializeKeyDerivationPath } from './path'
+
+// Must match the prefix used by the ChainSignatures contract, otherwise the derived keys won't match
+const EPSILON_DERIVATION_PREFIX = 'near-mpc-recovery v0.1.0 epsilon derivation:'
+
+const SECP256K1_ORDER = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141'
+)
+
+/**
+ * Computes the scalar (epsilon) the contract uses to tweak the root key for a given predecessor and path.
+ *
+ * @param predecessor - The NEAR account that requests the signature
+ * @param path - The derivation path
+ * @returns The epsilon as a 32 bytes hex string without 0x prefix
+ */
+export const deriveEpsilon = (
+  predecessor: string,
+  path: KeyDerivationPath
+): string => {
+  const epsilon = bytesToHex(
+    sha3_256(
+      `${EPSILON_DERIVATION_PREFIX}${predecessor},${serializeKeyDerivationPath(path)}`
+    )
+  )
+
+  const scalar = BigInt(`0x${epsilon}`)
+  if (scalar === BigInt(0) || scalar >= SECP256K1_ORDER) {
+    throw new Error('Derived epsilon value falls outside of the field')
+  }
+
+  return epsilon
+}
+
+/**
+ * Derives the child public key locally, mirroring the contract `derived_public_key` view method.
+ *
+ * @param rootPublicKey - The MPC root public key in NAJ format (e.g. secp256k1:...)
+ * @param predecessor - The NEAR account that requests the signature
+ * @param path - The derivation path
+ * @returns The derived public key in NAJ format
+ */
+export const deriveChildPublicKey = ({
+  rootPublicKey,
+  predecessor,
+  path,
+}: {
+  rootPublicKey: string
+  predecessor: string
+  path: KeyDerivationPath
+}): string => {
+  const epsilon = deriveEpsilon(predecessor, path)
+  const rootPoint = `0x${najToPubKey(rootPublicKey, { compress: false })}`
+  const epsilonPoint = SigningKey.computePublicKey(`0x${epsilon}`, false)
+
+  const childPoint = SigningKey.addPoints(rootPoint, epsilonPoint, false)
+
+  // Drop the 0x04 prefix, NAJ keys only contain the X and Y coordinates
+  return `secp256k1:${base_encode(Buffer.from(childPoint.substring(4), 'hex'))}`
+}
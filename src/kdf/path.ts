@@ -0,0 +1,108 @@
+import {
+  type CanonicalKeyDerivationPath,
+  type KeyDerivationPath,
+  type SLIP044ChainId,
+} from '../signature/types'
+
+const SLIP044_CHAIN_IDS: SLIP044ChainId[] = [0, 60, 118]
+
+// Keys are sorted alphabetically, as required by JSON Canonical Serialization
+const CANONICAL_PATH_KEYS = ['account', 'chain', 'domain', 'suffix'] as const
+
+const validateKeyDerivationPath = (path: CanonicalKeyDerivationPath): void => {
+  if (!SLIP044_CHAIN_IDS.includes(path.chain)) {
+    throw new Error(
+      `Invalid derivation path chain: ${path.chain}, expected one of ${SLIP044_CHAIN_IDS.join(', ')}`
+    )
+  }
+
+  if (
+    path.account !== undefined &&
+    (!Number.isSafeInteger(path.account) || path.account < 0)
+  ) {
+    throw new Error(
+      `Invalid derivation path account: ${path.account}, expected a non-negative integer`
+    )
+  }
+
+  if (
+    path.domain !== undefined &&
+    (typeof path.domain !== 'string' || path.domain.length === 0)
+  ) {
+    throw new Error(
+      'Invalid derivation path domain: expected a non-empty string'
+    )
+  }
+
+  if (path.suffix !== undefined && typeof path.suffix !== 'string') {
+    throw new Error('Invalid derivation path suffix: expected a string')
+  }
+}
+
+/**
+ * Builds the canonical string of a structured derivation path.
+ *
+ * @param path - The structured derivation path
+ * @returns The path serialized with JSON Canonical Serialization (sorted keys, no whitespace)
+ * @throws {Error} If the path is invalid
+ */
+export const buildKeyDerivationPath = (
+  path: CanonicalKeyDerivationPath
+): string => {
+  validateKeyDerivationPath(path)
+
+  const entries = CANONICAL_PATH_KEYS.filter(
+    (key) => path[key] !== undefined
+  ).map((key) => `${JSON.stringify(key)}:${JSON.stringify(path[key])}`)
+
+  return `{${entries.join(',')}}`
+}
+
+/**
+ * Parses a canonical derivation path string back into its structured form.
+ *
+ * @param path - The canonical derivation path string
+ * @returns The structured derivation path
+ * @throws {Error} If the string is not a valid canonical derivation path
+ */
+export const parseKeyDerivationPath = (
+  path: string
+): CanonicalKeyDerivationPath => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(path)
+  } catch (e) {
+    throw new Error(`Invalid derivation path: ${path} is not valid JSON`)
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid derivation path: ${path} is not an object`)
+  }
+
+  const unknownKeys = Object.keys(parsed).filter(
+    (key) => !(CANONICAL_PATH_KEYS as readonly string[]).includes(key)
+  )
+  if (unknownKeys.length > 0) {
+    throw new Error(
+      `Invalid derivation path: unknown keys ${unknownKeys.join(', ')}`
+    )
+  }
+
+  const structuredPath = parsed as CanonicalKeyDerivationPath
+
+  if (buildKeyDerivationPath(structuredPath) !== path) {
+    throw new Error(`Invalid derivation path: ${path} is not canonical`)
+  }
+
+  return structuredPath
+}
+
+/**
+ * Converts any supported derivation path into the string sent to the ChainSignatures contract.
+ * Plain strings are passed through untouched to keep compatibility with existing paths.
+ *
+ * @param path - The derivation path as a plain string or structured object
+ * @returns The derivation path string
+ */
+export const serializeKeyDerivationPath = (path: KeyDerivationPath): string =>
+  typeof path === 'string' ? path : buildKeyDerivationPath(path)
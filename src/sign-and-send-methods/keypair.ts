@@ -6,6 +6,7 @@ import { EVM } from '../chains/EVM/EVM'
 import { type EVMRequest } from '../chains/EVM/types'
 import { type Response } from '../chains/types'
 import { ChainSignaturesContract } from '../contracts'
+import { type MPCSignature } from '../signature/types'
 import { type KeyPair } from '@near-js/crypto'
 
 export const signAndSendEVMTransaction = async (
@@ -17,24 +18,43 @@ export const signAndSendEVMTransaction = async (
       providerUrl: req.chainConfig.providerUrl,
       contract: req.chainConfig.contract,
       nearNetworkId: req.nearAuthentication.networkId,
+      nonceManager: req.nonceManager,
     })
 
     const { transaction, mpcPayloads } = await evm.getMPCPayloadAndTransaction(
-      req.transaction
+      req.transaction,
+      req.feeOptions
     )
 
-    const signature = await ChainSignaturesContract.sign({
-      hashedTx: mpcPayloads[0].payload,
-      path: req.derivationPath,
-      nearAuthentication: req.nearAuthentication,
-      contract: req.chainConfig.contract,
-      relayerUrl: req.fastAuthRelayerUrl,
-      keypair: keyPair,
-    })
+    let signature: MPCSignature
+    let publicKey: string
+    try {
+      signature = await ChainSignaturesContract.sign({
+        hashedTx: mpcPayloads[0].payload,
+        path: req.derivationPath,
+        nearAuthentication: req.nearAuthentication,
+        contract: req.chainConfig.contract,
+        relayerUrl: req.fastAuthRelayerUrl,
+        keypair: keyPair,
+      })
+
+      publicKey = (
+        await evm.deriveAddressAndPublicKey(
+          req.nearAuthentication.accountId,
+          req.derivationPath
+        )
+      ).publicKey
+    } catch (e: unknown) {
+      // The transaction is never broadcast, its nonce must not be skipped
+      evm.releaseNonce(transaction)
+      throw e
+    }
 
+    // Releases the nonce itself when the signature is rejected before broadcast
     const txHash = await evm.addSignatureAndBroadcast({
       transaction,
       mpcSignatures: [signature],
+      publicKey,
     })
 
     return {
@@ -59,6 +79,7 @@ export const signAndSendBTCTransaction = async (
       providerUrl: req.chainConfig.providerUrl,
       contract: req.chainConfig.contract,
       network: req.chainConfig.network,
+      addressType: req.chainConfig.addressType,
       nearNetworkId: req.nearAuthentication.networkId,
     })
 
@@ -128,6 +149,7 @@ export const signAndSendCosmosTransaction = async (
     const txHash = await cosmos.addSignatureAndBroadcast({
       transaction,
       mpcSignatures: signatures,
+      publicKey: req.transaction.publicKey,
     })
 
     return {
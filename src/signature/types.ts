@@ -1,5 +1,14 @@
 export type SLIP044ChainId = 0 | 60 | 118
-export type KeyDerivationPath = string
+
+export interface CanonicalKeyDerivationPath {
+  chain: SLIP044ChainId
+  account?: number
+  domain?: string
+  suffix?: string
+}
+
+export type KeyDerivationPath = string | CanonicalKeyDerivationPath
+
 export interface RSVSignature {
   r: string
   s: string
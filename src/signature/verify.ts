@@ -0,0 +1,105 @@
+import { SigningKey } from 'ethers'
+
+import { type MPCPayloads } from '../chains/types'
+import { type MPCSignature } from './types'
+import { toRSV } from './utils'
+
+const SECP256K1_HALF_ORDER = BigInt(
+  '0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0'
+)
+
+export class SignatureVerificationError extends Error {
+  readonly index: number
+  readonly reason: string
+
+  constructor(index: number, reason: string) {
+    super(`Invalid signature for payload ${index}: ${reason}`)
+    this.name = 'SignatureVerificationError'
+    this.index = index
+    this.reason = reason
+  }
+}
+
+const getSignatureError = ({
+  payload,
+  signature,
+  publicKey,
+}: {
+  payload: Uint8Array
+  signature: MPCSignature | undefined
+  publicKey: string
+}): string | undefined => {
+  if (!signature) {
+    return 'missing signature'
+  }
+
+  if (payload.length !== 32) {
+    return `payload must be 32 bytes, got ${payload.length}`
+  }
+
+  const bigR = signature.big_r.affine_point
+  const yParity = bigR.substring(0, 2)
+  if (
+    (yParity !== '02' && yParity !== '03') ||
+    Number(yParity === '03') !== (signature.recovery_id & 1)
+  ) {
+    return 'recovery id does not match the R point'
+  }
+
+  const { r, s } = toRSV(signature)
+  if (BigInt(`0x${s}`) > SECP256K1_HALF_ORDER) {
+    return 'high-S signature'
+  }
+
+  let recoveredPublicKey: string
+  try {
+    recoveredPublicKey = SigningKey.recoverPublicKey(payload, {
+      r: `0x${r.padStart(64, '0')}`,
+      s: `0x${s.padStart(64, '0')}`,
+      v: 27 + signature.recovery_id,
+    })
+  } catch (e) {
+    return 'public key recovery failed'
+  }
+
+  const expectedPublicKey = SigningKey.computePublicKey(
+    publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`,
+    false
+  )
+
+  if (recoveredPublicKey !== expectedPublicKey) {
+    return 'signature does not match the derived public key'
+  }
+
+  return undefined
+}
+
+/**
+ * Verifies each MPC signature against the payload with the same index and the derived public key.
+ *
+ * @param mpcPayloads - The payloads sent to the contract for signing
+ * @param mpcSignatures - The signatures returned by the contract, indexed like the payloads
+ * @param publicKey - The derived public key in hex format (compressed or uncompressed)
+ * @throws {SignatureVerificationError} If any of the signatures is invalid
+ */
+export const verifyMPCSignatures = ({
+  mpcPayloads,
+  mpcSignatures,
+  publicKey,
+}: {
+  mpcPayloads: MPCPayloads
+  mpcSignatures: MPCSignature[]
+  publicKey: string
+}): void => {
+  mpcPayloads.forEach(({ index, payload }) => {
+    const reason = getSignatureError({
+      payload,
+      signature: mpcSignatures[index],
+      publicKey,
+    })
+
+    if (reason) {
+      throw new SignatureVerificationError(index, reason)
+    }
+  })
+}
@@ -12,6 +12,7 @@ import { type KeyDerivationPath, type MPCSignature } from '../signature/types'
 import { ChainSignaturesContract } from '../contracts'
 import { type ExecutionOutcomeWithId } from 'near-api-js/lib/providers'
 import { NEAR_MAX_GAS } from '../signature/utils'
+import { serializeKeyDerivationPath } from '../kdf'
 
 export const mpcPayloadsToChainSigTransaction = async ({
   networkId,
@@ -41,7 +42,7 @@ export const mpcPayloadsToChainSigTransaction = async ({
         args: {
           request: {
             payload: Array.from(payload),
-            path,
+            path: serializeKeyDerivationPath(path),
             key_version: 0,
           },
         },
@@ -83,7 +84,7 @@ export const mpcPayloadsToNFTKeysTransaction = async ({
         methodName: 'ckt_sign_hash',
         args: {
           token_id: tokenId,
-          path,
+          path: serializeKeyDerivationPath(path),
           payload: Array.from(payload),
         },
         gas: NEAR_MAX_GAS.toString(),
@@ -0,0 +1,34 @@
+import { describe, test, expect } from '@jest/globals'
+import { convertAmount, formatAmount, parseAmount } from '../src/chains/utils'
+import { Bitcoin } from '../src/chains/Bitcoin/Bitcoin'
+
+describe('Amount', () => {
+  test('should parse and format without losing precision', () => {
+    const amount = parseAmount('123456789.123456789012345678', 18)
+
+    expect(amount.value).toBe(BigInt('123456789123456789012345678'))
+    expect(formatAmount(amount)).toBe('123456789.123456789012345678')
+    expect(formatAmount({ value: BigInt(1500), decimals: 3 })).toBe('1.5')
+    expect(formatAmount({ value: BigInt(42), decimals: 0 })).toBe('42')
+  })
+
+  test('should reject invalid amounts and extra decimals', () => {
+    expect(() => parseAmount('1e18', 18)).toThrow()
+    expect(() => parseAmount('-1', 18)).toThrow()
+    expect(() => parseAmount('0.123', 2)).toThrow()
+  })
+
+  test('should convert between decimals only when exact', () => {
+    expect(convertAmount({ value: BigInt(15), decimals: 1 }, 8).value).toBe(
+      BigInt(150000000)
+    )
+    expect(() =>
+      convertAmount({ value: BigInt(150000001), decimals: 8 }, 1)
+    ).toThrow()
+  })
+
+  test('should convert between BTC and satoshis', () => {
+    expect(Bitcoin.toSatoshi('0.1')).toBe(BigInt(10000000))
+    expect(Bitcoin.toBTC(BigInt('2099999997690000'))).toBe('20999999.9769')
+  })
+})
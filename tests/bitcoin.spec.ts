@@ -0,0 +1,1055 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals'
+import axios from 'axios'
+import * as bitcoin from 'bitcoinjs-lib'
+import { HDNodeWallet, SigningKey } from 'ethers'
+import { base_encode } from 'near-api-js/lib/utils/serialize'
+import { Bitcoin } from '../src/chains/Bitcoin/Bitcoin'
+import { verifyBTCMessage } from '../src/chains/Bitcoin/message'
+import {
+  type BTCAddressType,
+  type BTCTimelockConfig,
+} from '../src/chains/Bitcoin/types'
+import { type MPCSignature } from '../src/signature'
+
+const signingKey = new SigningKey(`0x${'66'.repeat(32)}`)
+const publicKey = signingKey.compressedPublicKey.substring(2)
+const publicKeyNAJ = `secp256k1:${base_encode(Buffer.from(signingKey.publicKey.substring(4), 'hex'))}`
+
+const signWithKey = (payload: Uint8Array): MPCSignature => {
+  const signature = signingKey.sign(payload)
+  return {
+    big_r: {
+      affine_point: `0${2 + signature.yParity}${signature.r.substring(2)}`,
+    },
+    s: { scalar: signature.s.substring(2) },
+    recovery_id: signature.yParity,
+  }
+}
+
+// Signer of an external wallet
+const createSigner = (privateKey: string): bitcoin.Signer => {
+  const key = new SigningKey(privateKey)
+
+  return {
+    publicKey: Buffer.from(key.compressedPublicKey.substring(2), 'hex'),
+    sign: (hash: Buffer) => {
+      const { r, s } = key.sign(hash)
+      return Buffer.from(r.substring(2) + s.substring(2), 'hex')
+    },
+  }
+}
+
+const createBitcoin = (addressType: BTCAddressType): Bitcoin =>
+  new Bitcoin({
+    nearNetworkId: 'testnet',
+    network: 'testnet',
+    addressType,
+    providerUrl: 'https://esplora.test/api',
+    contract: 'v1.signer-prod.testnet',
+  })
+
+// Serves a funding transaction paying 100000 satoshis, or the given values, to the address in both Esplora formats,
+// and the other Esplora responses matched by the end of their URL
+const mockFundingTransaction = (
+  address: string,
+  responses: (fundingId: string) => Record<string, unknown> = () => ({}),
+  values = [100000]
+): string => {
+  const funding = new bitcoin.Transaction()
+  funding.addInput(Buffer.alloc(32, 1), 0)
+  values.forEach((value) => {
+    funding.addOutput(
+      bitcoin.address.toOutputScript(address, bitcoin.networks.testnet),
+      value
+    )
+  })
+
+  const responseEntries = Object.entries(responses(funding.getId()))
+
+  jest.spyOn(axios, 'get').mockImplementation(async (url: string) => ({
+    data:
+      responseEntries.find(([suffix]) => url.endsWith(suffix))?.[1] ??
+      (url.endsWith('/hex')
+        ? funding.toHex()
+        : {
+            version: funding.version,
+            locktime: funding.locktime,
+            vin: [],
+            vout: funding.outs.map((out) => ({
+              scriptpubkey: out.script.toString('hex'),
+              value: out.value,
+            })),
+          }),
+  }))
+
+  return funding.getId()
+}
+
+describe('Bitcoin address types', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should derive the address for each type', async () => {
+    const addresses = await Promise.all(
+      (['p2wpkh', 'p2sh-p2wpkh', 'p2pkh'] as const).map(
+        async (addressType) =>
+          (
+            await createBitcoin(addressType).getAddressAndPublicKey(
+              publicKeyNAJ
+            )
+          ).address
+      )
+    )
+
+    expect(addresses[0]).toMatch(/^tb1q/)
+    expect(addresses[1]).toMatch(/^2/)
+    expect(addresses[2]).toMatch(/^[mn]/)
+  })
+
+  test.each(['p2wpkh', 'p2sh-p2wpkh', 'p2pkh'] as const)(
+    'should sign and finalize %s inputs',
+    async (addressType) => {
+      const btc = createBitcoin(addressType)
+      const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+      const txid = mockFundingTransaction(address)
+      const post = jest
+        .spyOn(axios, 'post')
+        .mockResolvedValue({ status: 200, data: 'txid' })
+
+      const { transaction, mpcPayloads } =
+        await btc.getMPCPayloadAndTransaction({
+          publicKey,
+          from: address,
+          to: address,
+          value: '90000',
+          inputs: [
+            {
+              txid,
+              vout: 0,
+              value: 100000,
+              status: {
+                confirmed: true,
+                block_height: 1,
+                block_hash: '',
+                block_time: 0,
+              },
+            },
+          ],
+          outputs: [{ address, value: 90000 }],
+        })
+
+      await btc.addSignatureAndBroadcast({
+        transaction,
+        mpcSignatures: mpcPayloads.map(({ payload }) => signWithKey(payload)),
+      })
+
+      const broadcast = bitcoin.Transaction.fromHex(
+        post.mock.calls[0][1] as string
+      )
+      expect(broadcast.ins).toHaveLength(1)
+      expect(broadcast.ins[0].script.length > 0).toBe(addressType !== 'p2wpkh')
+      expect(broadcast.hasWitnesses()).toBe(addressType !== 'p2pkh')
+      expect(broadcast.ins[0].sequence).toBe(0xfffffffd)
+    }
+  )
+
+  test.each([
+    ['p2wpkh', 68, 31],
+    ['p2sh-p2wpkh', 91, 32],
+    ['p2pkh', 148, 34],
+  ] as const)(
+    'should select coins with the size of %s inputs',
+    async (addressType, inputVsize, changeVsize) => {
+      const btc = createBitcoin(addressType)
+      const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+      mockFundingTransaction(address, (fundingId) => ({
+        '/utxo': [
+          {
+            txid: fundingId,
+            vout: 0,
+            value: 100000,
+            status: { confirmed: true, block_height: 1 },
+          },
+        ],
+        '/v1/fees/recommended': { hourFee: 2 },
+      }))
+
+      const { coinSelection } = await btc.getMPCPayloadAndTransaction({
+        publicKey,
+        from: address,
+        to: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        value: '50000',
+        coinSelection: { strategy: 'largest-first' },
+      })
+
+      // Overhead, the input, the recipient output and the change output
+      expect(coinSelection?.fee).toBe(2 * (11 + inputVsize + 34 + changeVsize))
+      expect(coinSelection?.effectiveFeeRate).toBe(2)
+    }
+  )
+})
+
+describe('Bitcoin fee bumping', () => {
+  const btc = createBitcoin('p2wpkh')
+  const recipient = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'
+  const parentId = 'aa'.repeat(32)
+
+  // Unconfirmed parent of 141 vB paying 200 satoshis, with 49800 satoshis of change, spending an output of the
+  // derived address and the given inputs
+  const mockParentTransaction = async (
+    vin: Array<Record<string, unknown>> = [],
+    sequence = 0xfffffffd
+  ): Promise<string> => {
+    const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+    const toVout = (outputAddress: string, value: number) => ({
+      scriptpubkey: bitcoin.address
+        .toOutputScript(outputAddress, bitcoin.networks.testnet)
+        .toString('hex'),
+      scriptpubkey_address: outputAddress,
+      value,
+    })
+
+    mockFundingTransaction(
+      address,
+      (fundingId) => ({
+        [`/tx/${parentId}`]: {
+          txid: parentId,
+          vin: [
+            {
+              txid: fundingId,
+              vout: 0,
+              prevout: { value: 100000, scriptpubkey_address: address },
+              sequence,
+            },
+            ...vin.map((input) => ({ txid: fundingId, ...input })),
+          ],
+          vout: [toVout(recipient, 50000), toVout(address, 49800)],
+          weight: 561,
+          fee: 200,
+          status: { confirmed: false },
+        },
+        [`/tx/${parentId}/outspend/1`]: { spent: false },
+      }),
+      [100000, 10000]
+    )
+
+    return address
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should replace a transaction paying the new fee from the change', async () => {
+    const address = await mockParentTransaction()
+
+    const { transaction } = await btc.getReplacementMPCPayloadAndTransaction({
+      transactionId: parentId,
+      feeRate: 10,
+      from: address,
+      publicKey,
+    })
+
+    expect(transaction.psbt.txInputs[0].sequence).toBe(0xfffffffd)
+    expect(transaction.psbt.txOutputs.map((out) => out.value)).toEqual([
+      50000, 48590,
+    ])
+  })
+
+  test('should only replace a transaction signalling replaceability', async () => {
+    const address = await mockParentTransaction([], 0xffffffff)
+
+    await expect(
+      btc.getReplacementMPCPayloadAndTransaction({
+        transactionId: parentId,
+        feeRate: 10,
+        from: address,
+        publicKey,
+      })
+    ).rejects.toThrow("doesn't signal replaceability")
+  })
+
+  test('should size each replaced input from the type of its prevout', async () => {
+    const { address: legacyAddress } =
+      await createBitcoin('p2pkh').getAddressAndPublicKey(publicKeyNAJ)
+    const address = await mockParentTransaction([
+      {
+        vout: 1,
+        prevout: { value: 10000, scriptpubkey_address: legacyAddress },
+        sequence: 0xfffffffd,
+      },
+    ])
+
+    const { transaction } = await btc.getReplacementMPCPayloadAndTransaction({
+      transactionId: parentId,
+      feeRate: 10,
+      from: address,
+      publicKey,
+    })
+
+    // 141 vB and a P2PKH input of 148 vB
+    expect(transaction.psbt.txOutputs[1].value).toBe(49800 - (2890 - 200))
+    expect(transaction.psbt.data.inputs[0].witnessUtxo).toBeDefined()
+    expect(transaction.psbt.data.inputs[1].nonWitnessUtxo).toBeDefined()
+  })
+
+  test('should pay for the parent and the child with CPFP', async () => {
+    const address = await mockParentTransaction()
+
+    const { transaction } = await btc.getCPFPMPCPayloadAndTransaction({
+      transactionId: parentId,
+      feeRate: 10,
+      from: address,
+      publicKey,
+    })
+
+    expect(transaction.psbt.txInputs[0].index).toBe(1)
+    expect(transaction.psbt.txOutputs[0].value).toBe(47490)
+    await expect(
+      btc.getCPFPMPCPayloadAndTransaction({
+        transactionId: parentId,
+        feeRate: 1,
+        from: address,
+        publicKey,
+      })
+    ).rejects.toThrow('already pays')
+  })
+})
+
+describe('Bitcoin batch payments', () => {
+  const btc = createBitcoin('p2wpkh')
+  const recipients = [
+    { address: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', value: '20000' },
+    {
+      address: 'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+      value: { value: BigInt(3), decimals: 4 },
+    },
+  ]
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should pay several recipients and embed data through coin selection', async () => {
+    const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+    mockFundingTransaction(address, (fundingId) => ({
+      '/utxo': [
+        {
+          txid: fundingId,
+          vout: 0,
+          value: 100000,
+          status: { confirmed: true, block_height: 1 },
+        },
+      ],
+      '/v1/fees/recommended': { hourFee: 2 },
+    }))
+
+    const { transaction } = await btc.getMPCPayloadAndTransaction({
+      publicKey,
+      from: address,
+      recipients,
+      opReturn: 'anchor',
+    })
+
+    const outputs = transaction.psbt.txOutputs
+    expect(outputs.slice(0, 3).map((out) => out.value)).toEqual([
+      20000, 30000, 0,
+    ])
+    expect(outputs[2].script.toString('hex')).toBe(
+      `6a06${Buffer.from('anchor').toString('hex')}`
+    )
+    expect(outputs[3].script).toEqual(
+      bitcoin.address.toOutputScript(address, bitcoin.networks.testnet)
+    )
+  })
+
+  test('should reject OP_RETURN data over 80 bytes', async () => {
+    await expect(
+      btc.getMPCPayloadAndTransaction({
+        publicKey,
+        from: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        recipients,
+        opReturn: Buffer.alloc(81),
+      })
+    ).rejects.toThrow('maximum is 80')
+  })
+})
+
+describe('Bitcoin sweep and consolidation', () => {
+  const btc = createBitcoin('p2wpkh')
+  const recipient = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'
+
+  // UTXOs of 100000, 50000, 2000, 1000 and 100 satoshis, the last one unconfirmed
+  const mockUTXOs = async (): Promise<{ address: string; txid: string }> => {
+    const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+    const values = [100000, 50000, 2000, 1000, 100]
+    const txid = mockFundingTransaction(
+      address,
+      (fundingId) => ({
+        '/utxo': values.map((value, vout) => ({
+          txid: fundingId,
+          vout,
+          value,
+          status: { confirmed: vout < 4, block_height: 1 },
+        })),
+        '/v1/fees/recommended': { hourFee: 5, economyFee: 2 },
+      }),
+      values
+    )
+
+    return { address, txid }
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should sweep the confirmed UTXOs without change', async () => {
+    const { address } = await mockUTXOs()
+
+    const { transaction, coinSelection } =
+      await btc.getSweepMPCPayloadAndTransaction({
+        publicKey,
+        from: address,
+        to: recipient,
+      })
+
+    // 11 vB of overhead, 4 inputs of 68 vB and an output of 31 vB at 5 sat/vB
+    expect(coinSelection.fee).toBe(5 * (11 + 4 * 68 + 31))
+    expect(transaction.psbt.txInputs).toHaveLength(4)
+    expect(transaction.psbt.txOutputs.map((out) => out.value)).toEqual([
+      153000 - coinSelection.fee,
+    ])
+  })
+
+  test('should sweep the chosen UTXOs', async () => {
+    const { address, txid } = await mockUTXOs()
+
+    const { transaction } = await btc.getSweepMPCPayloadAndTransaction({
+      publicKey,
+      from: address,
+      to: recipient,
+      utxos: [{ txid, vout: 1 }],
+      feeRate: 1,
+    })
+
+    expect(transaction.psbt.txOutputs[0].value).toBe(50000 - 110)
+  })
+
+  test('should consolidate the small UTXOs at the economy fee rate', async () => {
+    const { address } = await mockUTXOs()
+
+    const { transaction, coinSelection } =
+      await btc.getConsolidationMPCPayloadAndTransaction({
+        publicKey,
+        from: address,
+        maxValue: 60000,
+      })
+
+    expect(coinSelection.inputs.map((input) => input.value)).toEqual([
+      1000, 2000, 50000,
+    ])
+    expect(coinSelection.feeRate).toBe(2)
+    expect(transaction.psbt.txOutputs[0].script).toEqual(
+      bitcoin.address.toOutputScript(address, bitcoin.networks.testnet)
+    )
+    await expect(
+      btc.getConsolidationMPCPayloadAndTransaction({
+        publicKey,
+        from: address,
+        maxValue: 1500,
+      })
+    ).rejects.toThrow('At least 2 UTXOs')
+  })
+})
+
+describe('Bitcoin message signing', () => {
+  const message = 'Proof of reserves'
+
+  test.each(['p2wpkh', 'p2sh-p2wpkh', 'p2pkh'] as const)(
+    'should sign and verify a BIP-137 message for %s',
+    async (addressType) => {
+      const btc = createBitcoin(addressType)
+      const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+      const [{ payload }] = btc.getMessageMPCPayload({ message, address })
+
+      const signature = btc.formatMessageSignature({
+        address,
+        mpcSignature: signWithKey(payload),
+        publicKey,
+      })
+
+      expect(Buffer.from(signature, 'base64')).toHaveLength(65)
+      expect(btc.verifyMessage({ message, address, signature })).toBe(true)
+      expect(
+        btc.verifyMessage({ message: 'Tampered', address, signature })
+      ).toBe(false)
+    }
+  )
+
+  test('should sign and verify a BIP-322 simple message', async () => {
+    const btc = createBitcoin('p2wpkh')
+    const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+    const [{ payload }] = btc.getMessageMPCPayload({
+      message,
+      address,
+      format: 'bip322',
+    })
+
+    const signature = btc.formatMessageSignature({
+      address,
+      format: 'bip322',
+      mpcSignature: signWithKey(payload),
+      publicKey,
+    })
+
+    expect(btc.verifyMessage({ message, address, signature })).toBe(true)
+    expect(
+      btc.verifyMessage({
+        message,
+        address: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        signature,
+      })
+    ).toBe(false)
+  })
+
+  test('should verify the BIP-322 test vectors', () => {
+    const address = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l'
+
+    expect(
+      verifyBTCMessage({
+        message: '',
+        address,
+        signature:
+          'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        network: bitcoin.networks.bitcoin,
+      })
+    ).toBe(true)
+    expect(
+      verifyBTCMessage({
+        message: 'Hello World',
+        address,
+        signature:
+          'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        network: bitcoin.networks.bitcoin,
+      })
+    ).toBe(true)
+  })
+})
+
+describe('Bitcoin external PSBTs', () => {
+  const btc = createBitcoin('p2wpkh')
+  const cosigner = createSigner(`0x${'77'.repeat(32)}`)
+
+  // Spends an output of the cosigner then an output of the derived key, as a wallet like Sparrow would
+  const createExternalPSBT = async (): Promise<bitcoin.Psbt> => {
+    const { address } = await btc.getAddressAndPublicKey(publicKeyNAJ)
+    const cosignerPayment = bitcoin.payments.p2wpkh({
+      pubkey: cosigner.publicKey,
+      network: bitcoin.networks.testnet,
+    })
+
+    const psbt = new bitcoin.Psbt({ network: bitcoin.networks.testnet })
+    psbt.addInput({
+      hash: 'aa'.repeat(32),
+      index: 0,
+      witnessUtxo: { script: cosignerPayment.output as Buffer, value: 50000 },
+    })
+    psbt.addInput({
+      hash: 'bb'.repeat(32),
+      index: 1,
+      witnessUtxo: {
+        script: bitcoin.address.toOutputScript(
+          address,
+          bitcoin.networks.testnet
+        ),
+        value: 50000,
+      },
+    })
+    psbt.addOutput({ address: cosignerPayment.address as string, value: 99000 })
+
+    return psbt
+  }
+
+  test('should only sign the inputs of the derived key', async () => {
+    const { transaction, mpcPayloads, inputIndexes } = btc.getPSBTMPCPayloads({
+      psbt: (await createExternalPSBT()).toBase64(),
+      publicKey,
+    })
+
+    expect(inputIndexes).toEqual([1])
+    expect(mpcPayloads).toHaveLength(1)
+
+    const partiallySigned = btc.addSignatureToPSBT({
+      transaction,
+      mpcSignatures: mpcPayloads.map(({ payload }) => signWithKey(payload)),
+      format: 'hex',
+    })
+
+    // The cosigner completes the PSBT on its side
+    const psbt = btc.parsePSBT(partiallySigned)
+    expect(psbt.data.inputs[1].partialSig).toHaveLength(1)
+    psbt.signInput(0, cosigner)
+    psbt.finalizeAllInputs()
+    expect(psbt.extractTransaction().ins).toHaveLength(2)
+
+    expect(() =>
+      btc.getPSBTMPCPayloads({ psbt: partiallySigned, publicKey })
+    ).toThrow('No input of the PSBT')
+  })
+
+  test('should leave the given PSBT unchanged', async () => {
+    const psbt = await createExternalPSBT()
+    const serialized = psbt.toBase64()
+
+    const { transaction, mpcPayloads } = btc.getPSBTMPCPayloads({
+      psbt,
+      publicKey,
+    })
+    btc.addSignatureToPSBT({
+      transaction,
+      mpcSignatures: mpcPayloads.map(({ payload }) => signWithKey(payload)),
+    })
+
+    expect(transaction.psbt).not.toBe(psbt)
+    expect(psbt.toBase64()).toBe(serialized)
+  })
+})
+
+describe('Bitcoin P2WSH multisig', () => {
+  const btc = createBitcoin('p2wpkh')
+  const cosigner = createSigner(`0x${'88'.repeat(32)}`)
+  const hardwareWallet = HDNodeWallet.fromSeed(Buffer.alloc(32, 9))
+  const config = {
+    cosigners: [
+      cosigner.publicKey.toString('hex'),
+      { xpub: hardwareWallet.neuter().extendedKey, path: '0/1' },
+    ],
+    threshold: 2,
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should derive the same address whatever the order of the keys', () => {
+    const { address, witnessScript } = btc.getMultisigAddress({
+      ...config,
+      publicKey,
+    })
+
+    expect(address).toMatch(/^tb1q.{58}$/)
+    expect(
+      btc.getMultisigAddress({
+        cosigners: [...config.cosigners].reverse(),
+        threshold: 2,
+        publicKey,
+      }).address
+    ).toBe(address)
+    expect(
+      bitcoin.script
+        .decompile(witnessScript)
+        ?.some(
+          (chunk) =>
+            Buffer.isBuffer(chunk) &&
+            chunk.toString('hex') ===
+              hardwareWallet.derivePath('0/1').publicKey.substring(2)
+        )
+    ).toBe(true)
+  })
+
+  test('should combine the MPC and cosigner signatures', async () => {
+    const { address } = btc.getMultisigAddress({ ...config, publicKey })
+    const txid = mockFundingTransaction(address)
+    const post = jest
+      .spyOn(axios, 'post')
+      .mockResolvedValue({ status: 200, data: 'txid' })
+
+    const { transaction, mpcPayloads } =
+      await btc.getMultisigMPCPayloadAndTransaction({
+        ...config,
+        publicKey,
+        from: address,
+        to: address,
+        value: '90000',
+        inputs: [
+          {
+            txid,
+            vout: 0,
+            value: 100000,
+            status: {
+              confirmed: true,
+              block_height: 1,
+              block_hash: '',
+              block_time: 0,
+            },
+          },
+        ],
+        outputs: [{ address, value: 90000 }],
+      })
+
+    // The cosigner signs the same PSBT on its side
+    const cosignerPSBT = bitcoin.Psbt.fromBase64(transaction.psbt.toBase64())
+    cosignerPSBT.signInput(0, cosigner)
+
+    const mpcPSBT = btc.addSignatureToPSBT({
+      transaction,
+      mpcSignatures: mpcPayloads.map(({ payload }) => signWithKey(payload)),
+    })
+
+    expect(
+      await btc.combineAndBroadcastPSBTs([mpcPSBT, cosignerPSBT.toHex()])
+    ).toBe('txid')
+
+    const broadcast = bitcoin.Transaction.fromHex(
+      post.mock.calls[0][1] as string
+    )
+    // Empty item for the CHECKMULTISIG bug, 2 signatures and the witness script
+    expect(broadcast.ins[0].witness).toHaveLength(4)
+  })
+
+  test('should select coins paying the fee of the signed multisig inputs', async () => {
+    const cosigners = Array.from({ length: 14 }, (_, index) =>
+      createSigner(`0x${(index + 16).toString(16).repeat(32)}`)
+    )
+    const largeConfig = {
+      cosigners: cosigners.map((signer) => signer.publicKey.toString('hex')),
+      threshold: 11,
+    }
+    const { address } = btc.getMultisigAddress({ ...largeConfig, publicKey })
+    const values = [30000, 30000, 30000]
+    mockFundingTransaction(
+      address,
+      (fundingId) => ({
+        '/utxo': values.map((value, vout) => ({
+          txid: fundingId,
+          vout,
+          value,
+          status: { confirmed: true, block_height: 1 },
+        })),
+        '/v1/fees/recommended': { hourFee: 5 },
+      }),
+      values
+    )
+    const post = jest
+      .spyOn(axios, 'post')
+      .mockResolvedValue({ status: 200, data: 'txid' })
+
+    const { transaction, mpcPayloads, coinSelection } =
+      await btc.getMultisigMPCPayloadAndTransaction({
+        ...largeConfig,
+        publicKey,
+        from: address,
+        to: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        value: '50000',
+      })
+
+    const cosignerPSBTs = cosigners.slice(0, 10).map((signer) => {
+      const cosignerPSBT = bitcoin.Psbt.fromBase64(transaction.psbt.toBase64())
+      cosignerPSBT.signAllInputs(signer)
+      return cosignerPSBT.toHex()
+    })
+    const mpcPSBT = btc.addSignatureToPSBT({
+      transaction,
+      mpcSignatures: mpcPayloads.map(({ payload }) => signWithKey(payload)),
+    })
+    await btc.combineAndBroadcastPSBTs([mpcPSBT, ...cosignerPSBTs])
+
+    const broadcast = bitcoin.Transaction.fromHex(
+      post.mock.calls[0][1] as string
+    )
+    expect(broadcast.ins).toHaveLength(coinSelection.inputs.length)
+    expect(broadcast.virtualSize() * coinSelection.feeRate).toBeLessThanOrEqual(
+      coinSelection.fee
+    )
+    // Shorter signatures than the largest DER encoding are the only overestimate
+    expect(coinSelection.fee).toBeLessThanOrEqual(
+      (broadcast.virtualSize() + 10 * broadcast.ins.length) *
+        coinSelection.feeRate
+    )
+  })
+})
+
+describe('Bitcoin timelocks', () => {
+  const btc = createBitcoin('p2wpkh')
+  const coldKey = createSigner(`0x${'99'.repeat(32)}`).publicKey.toString('hex')
+
+  // Absolute locks up to block 900000 and time 500000000 expired
+  const tip = {
+    '/blocks/tip/height': 900000,
+    '/blocks/tip/hash': 'ff'.repeat(32),
+    [`/block/${'ff'.repeat(32)}`]: { mediantime: 500000001 },
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const spendTimelock = async (
+    config: BTCTimelockConfig
+  ): Promise<bitcoin.Transaction> => {
+    const { address } = btc.getTimelockAddress(config)
+    const txid = mockFundingTransaction(address, () => tip)
+    const post = jest
+      .spyOn(axios, 'post')
+      .mockResolvedValue({ status: 200, data: 'txid' })
+
+    const { transaction, mpcPayloads } =
+      await btc.getTimelockMPCPayloadAndTransaction({
+        ...config,
+        publicKey,
+        from: address,
+        to: address,
+        value: '90000',
+        inputs: [
+          {
+            txid,
+            vout: 0,
+            value: 100000,
+            status: {
+              confirmed: true,
+              block_height: 1,
+              block_hash: '',
+              block_time: 0,
+            },
+          },
+        ],
+        outputs: [{ address, value: 90000 }],
+      })
+
+    await btc.addSignatureAndBroadcast({
+      transaction,
+      mpcSignatures: mpcPayloads.map(({ payload }) => signWithKey(payload)),
+    })
+
+    return bitcoin.Transaction.fromHex(post.mock.calls[0][1] as string)
+  }
+
+  test('should spend a relative timelock with the derived key', async () => {
+    const transaction = await spendTimelock({
+      type: 'relative',
+      lock: 144,
+      timelockedKey: publicKey,
+      recoveryKey: coldKey,
+    })
+
+    expect(transaction.version).toBe(2)
+    expect(transaction.ins[0].sequence).toBe(144)
+    // Signature, 0x01 to take the timelocked branch and the witness script
+    expect(transaction.ins[0].witness).toHaveLength(3)
+    expect(transaction.ins[0].witness[1]).toEqual(Buffer.from([1]))
+  })
+
+  test('should spend an absolute timelock with the derived key', async () => {
+    const transaction = await spendTimelock({
+      type: 'absolute',
+      lock: 900000,
+      timelockedKey: publicKey,
+    })
+
+    expect(transaction.locktime).toBe(900000)
+    expect(transaction.ins[0].sequence).toBe(0xfffffffd)
+    expect(transaction.ins[0].witness).toHaveLength(2)
+  })
+
+  test('should spend through the recovery path without lock', async () => {
+    const transaction = await spendTimelock({
+      type: 'absolute',
+      lock: 900000,
+      timelockedKey: coldKey,
+      recoveryKey: publicKey,
+    })
+
+    expect(transaction.locktime).toBe(0)
+    expect(transaction.ins[0].witness[1]).toHaveLength(0)
+  })
+
+  test('should tell block heights from timestamps at 500000000', async () => {
+    const config = { type: 'absolute' as const, timelockedKey: publicKey }
+
+    expect(
+      btc.getTimelockAddress({ ...config, lock: 499999999, unit: 'height' })
+        .address
+    ).toMatch(/^tb1q/)
+    expect(() =>
+      btc.getTimelockAddress({ ...config, lock: 499999999, unit: 'timestamp' })
+    ).toThrow('Invalid timestamp 499999999')
+    expect(() =>
+      btc.getTimelockAddress({ ...config, lock: 500000000, unit: 'height' })
+    ).toThrow('Invalid block height 500000000')
+
+    const transaction = await spendTimelock({
+      ...config,
+      lock: 500000000,
+      unit: 'timestamp',
+    })
+    expect(transaction.locktime).toBe(500000000)
+  })
+
+  test('should select coins paying the fee of the signed timelock inputs', async () => {
+    const config = {
+      type: 'absolute' as const,
+      lock: 900000,
+      timelockedKey: coldKey,
+      recoveryKey: publicKey,
+    }
+    const { address } = btc.getTimelockAddress(config)
+    const values = [30000, 30000, 30000]
+    mockFundingTransaction(
+      address,
+      (fundingId) => ({
+        '/utxo': values.map((value, vout) => ({
+          txid: fundingId,
+          vout,
+          value,
+          status: { confirmed: true, block_height: 1 },
+        })),
+        '/v1/fees/recommended': { hourFee: 5 },
+      }),
+      values
+    )
+    const post = jest
+      .spyOn(axios, 'post')
+      .mockResolvedValue({ status: 200, data: 'txid' })
+
+    const { transaction, mpcPayloads, coinSelection } =
+      await btc.getTimelockMPCPayloadAndTransaction({
+        ...config,
+        publicKey,
+        from: address,
+        to: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        value: '50000',
+      })
+    await btc.addSignatureAndBroadcast({
+      transaction,
+      mpcSignatures: mpcPayloads.map(({ payload }) => signWithKey(payload)),
+    })
+
+    const broadcast = bitcoin.Transaction.fromHex(
+      post.mock.calls[0][1] as string
+    )
+    expect(broadcast.ins).toHaveLength(coinSelection.inputs.length)
+    expect(broadcast.virtualSize() * coinSelection.feeRate).toBeLessThanOrEqual(
+      coinSelection.fee
+    )
+    expect(coinSelection.fee).toBeLessThanOrEqual(
+      (broadcast.virtualSize() + 5 * broadcast.ins.length) *
+        coinSelection.feeRate
+    )
+  })
+
+  test('should reject an absolute timelock that did not expire', async () => {
+    const config = {
+      type: 'absolute' as const,
+      timelockedKey: publicKey,
+    }
+    mockFundingTransaction(
+      btc.getTimelockAddress({ ...config, lock: 900001 }).address,
+      () => tip
+    )
+
+    await expect(
+      btc.getTimelockMPCPayloadAndTransaction({
+        ...config,
+        lock: 900001,
+        publicKey,
+        from: btc.getTimelockAddress({ ...config, lock: 900001 }).address,
+        to: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        value: '1000',
+      })
+    ).rejects.toThrow('The timelock expires at block 900001')
+    await expect(
+      btc.getTimelockMPCPayloadAndTransaction({
+        ...config,
+        lock: 500000001,
+        publicKey,
+        from: btc.getTimelockAddress({ ...config, lock: 500000001 }).address,
+        to: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        value: '1000',
+      })
+    ).rejects.toThrow('The timelock expires at time 500000001')
+  })
+
+  test('should only spend UTXOs confirmed before the relative lock', async () => {
+    const config = {
+      type: 'relative' as const,
+      lock: 10,
+      timelockedKey: publicKey,
+    }
+    const { address } = btc.getTimelockAddress(config)
+    const values = [30000, 60000]
+    mockFundingTransaction(
+      address,
+      (fundingId) => ({
+        ...tip,
+        '/utxo': values.map((value, vout) => ({
+          txid: fundingId,
+          vout,
+          value,
+          // 10 and 9 confirmations
+          status: { confirmed: true, block_height: 899991 + vout },
+        })),
+        '/v1/fees/recommended': { hourFee: 1 },
+      }),
+      values
+    )
+
+    const { coinSelection } = await btc.getTimelockMPCPayloadAndTransaction({
+      ...config,
+      publicKey,
+      from: address,
+      to: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+      value: '20000',
+    })
+
+    expect(coinSelection?.inputs.map((input) => input.vout)).toEqual([0])
+  })
+
+  test('should reject keys outside of the timelock', async () => {
+    const config = {
+      type: 'relative' as const,
+      lock: 10,
+      timelockedKey: coldKey,
+    }
+
+    await expect(
+      btc.getTimelockMPCPayloadAndTransaction({
+        ...config,
+        publicKey,
+        from: btc.getTimelockAddress(config).address,
+        to: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        value: '1000',
+      })
+    ).rejects.toThrow('is not a key of the timelock')
+  })
+})
+
+describe('Bitcoin transaction confirmation', () => {
+  const btc = createBitcoin('p2wpkh')
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should count the confirmations from the Esplora tip height', async () => {
+    const txid = 'ab'.repeat(32)
+    const tipHeights = [101, 102]
+    jest.spyOn(axios, 'get').mockImplementation(async (url: string) => ({
+      data: url.endsWith('/blocks/tip/height')
+        ? (tipHeights.shift() ?? 102)
+        : {
+            txid,
+            vin: [{ txid: 'cd'.repeat(32), vout: 0 }],
+            status: { confirmed: true, block_height: 100 },
+          },
+    }))
+
+    expect(
+      await btc.waitForConfirmation(txid, {
+        confirmations: 3,
+        pollingInterval: 1,
+      })
+    ).toEqual({ status: 'confirmed', confirmations: 3, blockNumber: 100 })
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals'
+import axios from 'axios'
+import {
+  branchAndBound,
+  largestFirst,
+  privacy,
+} from '../src/chains/Bitcoin/coinselection'
+import { fetchBTCFeeProperties } from '../src/chains/Bitcoin/utils'
+import { type UTXO } from '../src/chains/Bitcoin/types'
+
+const address = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'
+const recipient =
+  'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7'
+
+const createUTXO = (
+  vout: number,
+  value: number,
+  blockHeight?: number
+): UTXO => ({
+  txid: 'aa'.repeat(32),
+  vout,
+  value,
+  status: {
+    confirmed: blockHeight !== undefined,
+    block_height: blockHeight ?? 0,
+    block_hash: '',
+    block_time: 0,
+  },
+})
+
+const getVouts = (inputs?: UTXO[]): number[] | undefined =>
+  inputs?.map((input) => input.vout).sort()
+
+describe('Bitcoin coin selection strategies', () => {
+  const utxos = [
+    createUTXO(0, 50000),
+    createUTXO(1, 30000),
+    createUTXO(2, 20000),
+    createUTXO(3, 10000),
+  ]
+
+  test('should find a changeless match with branch and bound', () => {
+    // 30000 + 10000 pays 39600 and the fee of a 2 inputs, 1 output transaction at 1 sat/vB, without change
+    const { inputs, outputs } = branchAndBound({
+      utxos,
+      required: [],
+      targets: [{ address: recipient, value: 39600 }],
+      feeRate: 1,
+    })
+
+    expect(getVouts(inputs)).toEqual([1, 3])
+    expect(outputs).toHaveLength(1)
+  })
+
+  test('should spend the largest UTXOs first', () => {
+    const { inputs, outputs } = largestFirst({
+      utxos,
+      required: [],
+      targets: [{ address: recipient, value: 60000 }],
+      feeRate: 1,
+    })
+
+    expect(getVouts(inputs)).toEqual([0, 1])
+    expect(outputs?.[1].value).toBeGreaterThan(0)
+  })
+
+  test('should spend a single UTXO for privacy', () => {
+    const { inputs } = privacy({
+      utxos,
+      required: [],
+      targets: [{ address: recipient, value: 25000 }],
+      feeRate: 1,
+    })
+
+    expect(getVouts(inputs)).toEqual([1])
+  })
+
+  test('should size the inputs and change with the given virtual sizes', () => {
+    const { inputs, outputs, fee } = largestFirst({
+      utxos,
+      required: [],
+      targets: [{ address: recipient, value: 40000 }],
+      feeRate: 2,
+      vsizes: { overhead: 11, input: 68, change: 31 },
+    })
+
+    expect(getVouts(inputs)).toEqual([0])
+    // Overhead, a P2WPKH input, the target output and a P2WPKH change output
+    expect(fee).toBe(2 * (11 + 68 + 34 + 31))
+    expect(outputs?.[1].value).toBe(50000 - 40000 - fee)
+  })
+
+  test('should not return inputs when the funds are insufficient', () => {
+    expect(
+      branchAndBound({
+        utxos,
+        required: [],
+        targets: [{ address: recipient, value: 200000 }],
+        feeRate: 1,
+      }).inputs
+    ).toBeUndefined()
+  })
+})
+
+describe('Bitcoin coin control', () => {
+  const mockEsplora = (utxos: UTXO[]): void => {
+    jest.spyOn(axios, 'get').mockImplementation(async (url: string) => ({
+      data: url.endsWith('/utxo')
+        ? utxos
+        : url.endsWith('/blocks/tip/height')
+          ? 100
+          : { hourFee: 1 },
+    }))
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should only spend UTXOs with enough confirmations', async () => {
+    mockEsplora([
+      createUTXO(0, 50000),
+      createUTXO(1, 40000, 99),
+      createUTXO(2, 30000, 90),
+    ])
+
+    const { inputs } = await fetchBTCFeeProperties(
+      'https://esplora.test/api',
+      address,
+      [{ address: recipient, value: 20000 }],
+      { strategy: 'largest-first', minConfirmations: 3 }
+    )
+
+    expect(getVouts(inputs)).toEqual([2])
+  })
+
+  test('should include and exclude UTXOs and report the selection', async () => {
+    mockEsplora([
+      createUTXO(0, 50000, 1),
+      createUTXO(1, 40000, 1),
+      createUTXO(2, 5000),
+    ])
+
+    const report = await fetchBTCFeeProperties(
+      'https://esplora.test/api',
+      address,
+      [{ address: recipient, value: 20000 }],
+      {
+        strategy: 'largest-first',
+        feeRate: 2,
+        include: [{ txid: 'aa'.repeat(32), vout: 2 }],
+        exclude: [{ txid: 'aa'.repeat(32), vout: 0 }],
+      }
+    )
+
+    expect(getVouts(report.inputs)).toEqual([1, 2])
+    expect(report.change).toBe(45000 - 20000 - report.fee)
+    expect(report.feeRate).toBe(2)
+    expect(report.effectiveFeeRate).toBeCloseTo(2, 0)
+
+    const segwitReport = await fetchBTCFeeProperties(
+      'https://esplora.test/api',
+      address,
+      [{ address: recipient, value: 20000 }],
+      { strategy: 'largest-first', feeRate: 2 },
+      { overhead: 11, input: 68, change: 31 }
+    )
+    // Overhead, a P2WPKH input, the target output and a P2WPKH change output
+    expect(segwitReport.fee).toBe(2 * (11 + 68 + 34 + 31))
+    expect(segwitReport.effectiveFeeRate).toBe(2)
+
+    await expect(
+      fetchBTCFeeProperties(
+        'https://esplora.test/api',
+        address,
+        [{ address: recipient, value: 20000 }],
+        { include: [{ txid: 'aa'.repeat(32), vout: 5 }] }
+      )
+    ).rejects.toThrow("can't be spent")
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals'
+import { StargateClient } from '@cosmjs/stargate'
+
+import { Cosmos } from '../src/chains/Cosmos/Cosmos'
+import { pollTransactionStatus } from '../src/chains/utils'
+import { type TransactionStatus } from '../src/chains/types'
+
+describe('Transaction confirmation', () => {
+  const statuses = (...sequence: TransactionStatus[]) => {
+    let calls = 0
+    return async (): Promise<TransactionStatus> =>
+      sequence[Math.min(calls++, sequence.length - 1)]
+  }
+
+  test('should wait for the requested confirmations', async () => {
+    const status = await pollTransactionStatus(
+      statuses(
+        { status: 'pending' },
+        { status: 'confirmed', confirmations: 1, blockNumber: 10 },
+        { status: 'confirmed', confirmations: 3, blockNumber: 10 }
+      ),
+      { confirmations: 3, pollingInterval: 1 }
+    )
+
+    expect(status).toEqual({
+      status: 'confirmed',
+      confirmations: 3,
+      blockNumber: 10,
+    })
+  })
+
+  test('should stop on a failed, dropped or replaced transaction', async () => {
+    expect(
+      await pollTransactionStatus(
+        statuses({ status: 'pending' }, { status: 'replaced' }),
+        { pollingInterval: 1 }
+      )
+    ).toEqual({ status: 'replaced' })
+  })
+
+  test('should return the last known status on timeout', async () => {
+    expect(
+      await pollTransactionStatus(statuses({ status: 'pending' }), {
+        timeout: 20,
+        pollingInterval: 5,
+      })
+    ).toEqual({ status: 'pending' })
+  })
+
+  test('should not wait for a status request that never returns', async () => {
+    const hanging = async (): Promise<TransactionStatus> =>
+      await new Promise(() => {})
+
+    expect(
+      await pollTransactionStatus(hanging, { timeout: 20, pollingInterval: 5 })
+    ).toEqual({ status: 'pending' })
+
+    const controller = new AbortController()
+    const status = pollTransactionStatus(hanging, {
+      signal: controller.signal,
+    })
+    controller.abort()
+
+    await expect(status).rejects.toThrow('aborted')
+  })
+
+  test('should reject when aborted', async () => {
+    const controller = new AbortController()
+    const status = pollTransactionStatus(statuses({ status: 'pending' }), {
+      pollingInterval: 1000,
+      signal: controller.signal,
+    })
+    controller.abort()
+
+    await expect(status).rejects.toThrow('aborted')
+  })
+})
+
+describe('Cosmos transaction confirmation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should report a transaction with a non zero code as failed', async () => {
+    const disconnect = jest.fn()
+    jest.spyOn(StargateClient, 'connect').mockResolvedValue({
+      getTx: async () => ({
+        code: 5,
+        rawLog: 'insufficient funds',
+        height: 200,
+      }),
+      getHeight: async () => 210,
+      disconnect,
+    } as unknown as StargateClient)
+
+    const cosmos = new Cosmos({
+      nearNetworkId: 'testnet',
+      contract: 'v1.signer-prod.testnet',
+      chainId: 'cosmoshub-4',
+    })
+
+    expect(
+      await cosmos.waitForConfirmation('AB'.repeat(32), { pollingInterval: 1 })
+    ).toEqual({
+      status: 'failed',
+      reason: 'insufficient funds',
+      blockNumber: 200,
+    })
+    expect(disconnect).toHaveBeenCalled()
+  })
+})
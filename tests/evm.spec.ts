@@ -0,0 +1,1577 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  afterEach,
+  beforeEach,
+} from '@jest/globals'
+import { SigningKey, ethers } from 'ethers'
+import { KeyPair } from 'near-api-js'
+import { EVM } from '../src/chains/EVM/EVM'
+import { EVMNonceManager } from '../src/chains/EVM/NonceManager'
+import { EVMFailoverProvider } from '../src/chains/EVM/FailoverProvider'
+import {
+  EVMCallRevertedError,
+  EVMFailoverError,
+} from '../src/chains/EVM/errors'
+import { ERC4337, getUserOperationHash } from '../src/chains/EVM/ERC4337'
+import { ERC20 } from '../src/chains/EVM/ERC20'
+import { ERC721 } from '../src/chains/EVM/ERC721'
+import { ERC1155 } from '../src/chains/EVM/ERC1155'
+import {
+  fetchEVMFeePresets,
+  fetchEVMFeeProperties,
+} from '../src/chains/EVM/utils'
+import { type EVMRequest } from '../src/chains/EVM/types'
+import { ChainSignaturesContract } from '../src/contracts'
+import { signAndSendEVMTransaction } from '../src/sign-and-send-methods/keypair'
+import { type MPCSignature, SignatureVerificationError } from '../src/signature'
+
+const signWithKey = (
+  signingKey: SigningKey,
+  payload: Uint8Array
+): MPCSignature => {
+  const signature = signingKey.sign(payload)
+  return {
+    big_r: {
+      affine_point: `0${2 + signature.yParity}${signature.r.substring(2)}`,
+    },
+    s: { scalar: signature.s.substring(2) },
+    recovery_id: signature.yParity,
+  }
+}
+
+class RpcError extends Error {
+  constructor(
+    message: string,
+    readonly data?: string,
+    readonly code = -32000
+  ) {
+    super(message)
+  }
+}
+
+const mockBlock = (baseFeePerGas?: bigint): Record<string, unknown> => ({
+  hash: `0x${'11'.repeat(32)}`,
+  parentHash: `0x${'22'.repeat(32)}`,
+  number: '0x10',
+  timestamp: '0x0',
+  nonce: '0x0000000000000000',
+  difficulty: '0x0',
+  gasLimit: '0x1c9c380',
+  gasUsed: '0x0',
+  miner: ethers.ZeroAddress,
+  extraData: '0x',
+  baseFeePerGas:
+    baseFeePerGas !== undefined ? ethers.toQuantity(baseFeePerGas) : undefined,
+  transactions: [],
+})
+
+type RpcHandlers = Record<string, (params: any[], url: string) => unknown>
+
+// Answers the JSON-RPC methods of every endpoint, handlers throwing an RpcError return a JSON-RPC error
+const mockRpc = (handlers: RpcHandlers = {}): ReturnType<typeof jest.spyOn> => {
+  const defaultHandlers: RpcHandlers = {
+    eth_chainId: () => '0x1',
+    eth_blockNumber: () => '0x10',
+    eth_getBlockByNumber: () => mockBlock(ethers.parseUnits('1', 'gwei')),
+    eth_gasPrice: () => ethers.toQuantity(ethers.parseUnits('2', 'gwei')),
+    eth_maxPriorityFeePerGas: () =>
+      ethers.toQuantity(ethers.parseUnits('1', 'gwei')),
+    eth_estimateGas: () => '0x5208',
+    eth_getTransactionCount: () => '0x5',
+    ...handlers,
+  }
+
+  return jest
+    .spyOn(ethers.JsonRpcProvider.prototype, '_send')
+    .mockImplementation(async function (this: ethers.JsonRpcProvider, payload) {
+      const url = this._getConnection().url
+
+      return (Array.isArray(payload) ? payload : [payload]).map(
+        ({ id, method, params }) => {
+          try {
+            const handler = defaultHandlers[method]
+            if (!handler) {
+              throw new RpcError(`Method ${method} not found`)
+            }
+            return { id, result: handler(params as any[], url) }
+          } catch (error) {
+            return {
+              id,
+              error: {
+                code: error instanceof RpcError ? error.code : -32000,
+                message: (error as Error).message,
+                data: error instanceof RpcError ? error.data : undefined,
+              },
+            }
+          }
+        }
+      )
+    })
+}
+
+const gwei = (value: number): bigint =>
+  ethers.parseUnits(value.toString(), 'gwei')
+
+// Priority fees of the 10th, 50th and 90th percentiles over 3 blocks, the next base fee is 10 gwei
+const feeHistory = {
+  baseFeePerGas: [gwei(8), gwei(9), gwei(9), gwei(10)].map(ethers.toQuantity),
+  reward: [
+    [gwei(1), gwei(2), gwei(3)],
+    [gwei(2), gwei(4), gwei(6)],
+    [gwei(3), gwei(8), gwei(9)],
+  ].map((rewards) => rewards.map(ethers.toQuantity)),
+}
+
+describe('EVM message signing', () => {
+  const evm = new EVM({
+    providerUrl: 'http://localhost:8545',
+    contract: 'v1.signer-prod.testnet',
+    nearNetworkId: 'testnet',
+  })
+  const signingKey = new SigningKey(`0x${'44'.repeat(32)}`)
+  const address = ethers.computeAddress(signingKey)
+
+  test('should produce an EIP-191 signature', () => {
+    const message = 'Sign in with NEAR'
+    const [{ payload }] = evm.getMessageMPCPayload(message)
+
+    const signature = evm.formatMessageSignature(
+      signWithKey(signingKey, payload)
+    )
+
+    expect(ethers.dataLength(signature)).toBe(65)
+    expect(ethers.verifyMessage(message, signature)).toBe(address)
+  })
+
+  test('should produce an EIP-712 signature', () => {
+    const typedData = {
+      domain: { name: 'Permit', version: '1', chainId: 1 },
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+        ],
+        Permit: [
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+        ],
+      },
+      message: {
+        spender: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        value: '1000',
+      },
+    }
+    const [{ payload }] = evm.getTypedDataMPCPayload(typedData)
+
+    const signature = evm.formatMessageSignature(
+      signWithKey(signingKey, payload)
+    )
+
+    expect(
+      ethers.verifyTypedData(
+        typedData.domain,
+        { Permit: typedData.types.Permit },
+        typedData.message,
+        signature
+      )
+    ).toBe(address)
+  })
+})
+
+describe('EVM EIP-7702 authorization', () => {
+  const evm = new EVM({
+    providerUrl: 'http://localhost:8545',
+    contract: 'v1.signer-prod.testnet',
+    nearNetworkId: 'testnet',
+  })
+  const signingKey = new SigningKey(`0x${'55'.repeat(32)}`)
+  const authority = ethers.computeAddress(signingKey)
+
+  test('should sign an authorization for the derived address', async () => {
+    const { authorization, mpcPayloads } = await evm.getAuthorizationMPCPayload(
+      {
+        address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        authority,
+        chainId: BigInt(1),
+        nonce: BigInt(3),
+      }
+    )
+
+    const signedAuthorization = evm.addSignatureToAuthorization({
+      authorization,
+      mpcSignatures: [signWithKey(signingKey, mpcPayloads[0].payload)],
+      publicKey: signingKey.publicKey,
+    })
+
+    expect(
+      ethers.verifyAuthorization(authorization, signedAuthorization.signature)
+    ).toBe(authority)
+    expect(
+      ethers.Transaction.from({
+        type: 4,
+        chainId: 1,
+        to: authority,
+        authorizationList: [signedAuthorization],
+      }).authorizationList?.[0].nonce
+    ).toBe(BigInt(3))
+  })
+})
+
+describe('EVM nonce manager', () => {
+  const address = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+  let pendingNonce = 5
+  const provider = {
+    getNetwork: async () => ({ chainId: BigInt(1) }),
+    getTransactionCount: async () => pendingNonce,
+  } as unknown as ethers.Provider
+
+  test('should reserve distinct nonces for concurrent transactions', async () => {
+    const nonceManager = new EVMNonceManager()
+
+    const reservations = await Promise.all([
+      nonceManager.reserveNonce(provider, address),
+      nonceManager.reserveNonce(provider, address.toLowerCase()),
+      nonceManager.reserveNonce(provider, address),
+    ])
+
+    expect(reservations.map(({ nonce }) => nonce).sort()).toEqual([5, 6, 7])
+  })
+
+  test('should reuse released nonces and forget mined ones', async () => {
+    const nonceManager = new EVMNonceManager()
+
+    await nonceManager.reserveNonce(provider, address)
+    const reservation = await nonceManager.reserveNonce(provider, address)
+    reservation.release()
+
+    const reused = await nonceManager.reserveNonce(provider, address)
+    expect(reused.nonce).toBe(reservation.nonce)
+
+    // A stale reservation doesn't free the nonce reserved again since
+    reservation.release()
+    expect((await nonceManager.reserveNonce(provider, address)).nonce).not.toBe(
+      reused.nonce
+    )
+
+    pendingNonce = 10
+    expect((await nonceManager.reserveNonce(provider, address)).nonce).toBe(10)
+  })
+})
+
+describe('EVM ERC-4337', () => {
+  const sender = '0x1234567890123456789012345678901234567890'
+  const entryPointV06 = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+  const entryPointV07 = '0x0000000071727De22E5E9d8BAf0edAc6f37da032'
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  // Expected hashes are the EntryPoint getUserOpHash of the packed user operations
+  test('should hash a v0.6 user operation', () => {
+    expect(
+      getUserOperationHash(
+        {
+          sender,
+          nonce: BigInt(1),
+          initCode:
+            '0x9406Cc6185a346906296840746125a0E449764545fbfb9cf000000000000000000000000',
+          callData: '0xb61d27f6',
+          callGasLimit: BigInt(100000),
+          verificationGasLimit: BigInt(200000),
+          preVerificationGas: BigInt(50000),
+          maxFeePerGas: ethers.parseUnits('30', 'gwei'),
+          maxPriorityFeePerGas: ethers.parseUnits('2', 'gwei'),
+          paymasterAndData: '0x',
+          signature: '0x',
+        },
+        entryPointV06,
+        BigInt(1)
+      )
+    ).toBe('0xe9059976304eac391a79fedc2c7e2126df8521ab37c3bd7a49f1d22633ffe1a9')
+  })
+
+  test('should hash a v0.7 user operation with a paymaster', () => {
+    expect(
+      getUserOperationHash(
+        {
+          sender,
+          nonce: BigInt(2),
+          callData: '0xb61d27f6',
+          callGasLimit: BigInt(100000),
+          verificationGasLimit: BigInt(200000),
+          preVerificationGas: BigInt(50000),
+          maxFeePerGas: ethers.parseUnits('30', 'gwei'),
+          maxPriorityFeePerGas: ethers.parseUnits('2', 'gwei'),
+          paymaster: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+          paymasterVerificationGasLimit: BigInt(60000),
+          paymasterPostOpGasLimit: BigInt(10000),
+          paymasterData: '0xbeef',
+          signature: '0x',
+        },
+        entryPointV07,
+        BigInt(11155111)
+      )
+    ).toBe('0xc793d90db28515746384826935892c27ff0d7d4598c6236303fccbdcfc9901c9')
+  })
+
+  test.each([false, true])(
+    'should send a user operation signed by the derived key (EIP-191: %s)',
+    async (signUserOpHashAsMessage) => {
+      const signingKey = new SigningKey(`0x${'77'.repeat(32)}`)
+      let sentUserOperation: Record<string, string> | undefined
+
+      mockRpc({
+        eth_call: () => ethers.toBeHex(3, 32),
+        eth_feeHistory: () => {
+          throw new RpcError('Method eth_feeHistory not found')
+        },
+        eth_estimateUserOperationGas: () => ({
+          preVerificationGas: '0xc350',
+          verificationGasLimit: '0x30d40',
+          callGasLimit: '0x186a0',
+        }),
+        eth_sendUserOperation: ([userOperation]) => {
+          sentUserOperation = userOperation
+          return `0x${'ab'.repeat(32)}`
+        },
+      })
+
+      const erc4337 = new ERC4337({
+        evm: new EVM({
+          providerUrl: 'http://localhost:8545',
+          contract: 'v1.signer-prod.testnet',
+          nearNetworkId: 'testnet',
+        }),
+        bundlerUrl: 'http://bundler',
+        entryPoint: entryPointV07,
+        version: '0.7',
+        signUserOpHashAsMessage,
+      })
+
+      const { userOperation, mpcPayloads } =
+        await erc4337.getMPCPayloadAndUserOperation({
+          sender,
+          callData: '0xb61d27f6',
+        })
+
+      expect(userOperation).toMatchObject({
+        nonce: BigInt(3),
+        callGasLimit: BigInt(100000),
+      })
+
+      expect(
+        await erc4337.addSignatureAndSend({
+          userOperation,
+          mpcSignatures: [signWithKey(signingKey, mpcPayloads[0].payload)],
+          publicKey: signingKey.publicKey,
+        })
+      ).toBe(`0x${'ab'.repeat(32)}`)
+
+      const userOperationHash = getUserOperationHash(
+        userOperation,
+        entryPointV07,
+        BigInt(1)
+      )
+      const signature = sentUserOperation?.signature ?? '0x'
+      expect(
+        signUserOpHashAsMessage
+          ? ethers.verifyMessage(ethers.getBytes(userOperationHash), signature)
+          : ethers.recoverAddress(userOperationHash, signature)
+      ).toBe(ethers.computeAddress(signingKey))
+    }
+  )
+})
+
+describe('EVM transaction types', () => {
+  const signingKey = new SigningKey(`0x${'88'.repeat(32)}`)
+  const from = ethers.computeAddress(signingKey)
+  const to = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+  const accessList = [{ address: to, storageKeys: [ethers.toBeHex(1, 32)] }]
+  let evm: EVM
+
+  beforeEach(() => {
+    evm = new EVM({
+      providerUrl: 'http://localhost:8545',
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should detect EIP-1559 support from the latest block', async () => {
+    mockRpc()
+
+    const { transaction } = await evm.getMPCPayloadAndTransaction({
+      from,
+      to,
+      value: BigInt(1),
+    })
+
+    expect(transaction).toMatchObject({
+      type: 2,
+      chainId: BigInt(1),
+      nonce: 5,
+      gasLimit: BigInt(23100),
+      maxFeePerGas: gwei(3),
+      maxPriorityFeePerGas: gwei(1),
+    })
+    expect(transaction.gasPrice).toBeUndefined()
+  })
+
+  test('should fallback to legacy transactions without a base fee', async () => {
+    mockRpc({ eth_getBlockByNumber: () => mockBlock() })
+
+    const { transaction } = await evm.getMPCPayloadAndTransaction({
+      from,
+      to,
+      value: BigInt(1),
+    })
+
+    expect(transaction).toMatchObject({
+      type: 0,
+      chainId: BigInt(1),
+      gasPrice: gwei(2),
+    })
+    expect(transaction.accessList).toBeUndefined()
+    expect(transaction.maxFeePerGas).toBeUndefined()
+  })
+
+  test('should generate the access list of EIP-2930 transactions', async () => {
+    const createAccessList = jest.fn(() => ({
+      accessList,
+      gasUsed: '0x5208',
+    }))
+    mockRpc({ eth_createAccessList: createAccessList })
+
+    const { transaction } = await evm.getMPCPayloadAndTransaction({
+      from,
+      to,
+      data: '0xb61d27f6',
+      type: 1,
+    })
+
+    expect(transaction).toMatchObject({ type: 1, gasPrice: gwei(2) })
+    expect(transaction.accessList).toEqual(accessList)
+    expect(createAccessList).toHaveBeenCalledWith(
+      [{ from, to, data: '0xb61d27f6' }, 'latest'],
+      'http://localhost:8545'
+    )
+  })
+
+  test('should keep the access list given with the transaction', async () => {
+    const createAccessList = jest.fn()
+    mockRpc({ eth_createAccessList: createAccessList })
+
+    const { transaction } = await evm.getMPCPayloadAndTransaction({
+      from,
+      to,
+      type: 1,
+      accessList,
+    })
+
+    expect(transaction.accessList).toEqual(accessList)
+    expect(createAccessList).not.toHaveBeenCalled()
+  })
+
+  test.each([0, 1, 2])(
+    'should serialize and broadcast a signed type %i transaction',
+    async (type) => {
+      let broadcast = ''
+      mockRpc({
+        eth_createAccessList: () => ({ accessList, gasUsed: '0x5208' }),
+        eth_sendRawTransaction: ([signedTransaction]) => {
+          broadcast = signedTransaction
+          return ethers.keccak256(signedTransaction)
+        },
+      })
+
+      const { transaction, mpcPayloads } =
+        await evm.getMPCPayloadAndTransaction({
+          from,
+          to,
+          value: BigInt(1),
+          type,
+        })
+      expect(mpcPayloads[0].payload).toEqual(
+        ethers.getBytes(ethers.Transaction.from(transaction).unsignedHash)
+      )
+
+      const hash = await evm.addSignatureAndBroadcast({
+        transaction,
+        mpcSignatures: [signWithKey(signingKey, mpcPayloads[0].payload)],
+        publicKey: signingKey.publicKey,
+      })
+
+      const signed = ethers.Transaction.from(broadcast)
+      expect(hash).toBe(signed.hash)
+      expect(signed.type).toBe(type)
+      expect(signed.from).toBe(from)
+      expect(signed.chainId).toBe(BigInt(1))
+      expect(signed.accessList).toEqual(
+        type === 1 ? accessList : type === 2 ? [] : null
+      )
+    }
+  )
+})
+
+describe('EVM ERC-20', () => {
+  const owner = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+  const spender = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+  const tokenAddress = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+  const token = new ethers.Interface([
+    'function balanceOf(address owner) view returns (uint256)',
+    'function decimals() view returns (uint8)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function transfer(address to, uint256 amount) returns (bool)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+    'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  ])
+  let erc20: ERC20
+  let calls: string[]
+
+  beforeEach(() => {
+    calls = []
+    mockRpc({
+      // A token with 6 decimals
+      eth_call: ([call]) => {
+        const name = token.parseTransaction({ data: call.data })?.name ?? ''
+        calls.push(name)
+        const results: Record<string, unknown[]> = {
+          decimals: [6],
+          balanceOf: [BigInt(2500000)],
+          allowance: [BigInt(1000000)],
+        }
+        return token.encodeFunctionResult(name, results[name])
+      },
+    })
+    erc20 = new ERC20({
+      evm: new EVM({
+        providerUrl: 'http://localhost:8545',
+        contract: 'v1.signer-prod.testnet',
+        nearNetworkId: 'testnet',
+      }),
+      tokenAddress,
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should decode the balance and allowance with the token decimals', async () => {
+    expect(await erc20.getBalance(owner)).toEqual({
+      value: BigInt(2500000),
+      decimals: 6,
+    })
+    expect(await erc20.getAllowance(owner, spender)).toEqual({
+      value: BigInt(1000000),
+      decimals: 6,
+    })
+    // Decimals are only fetched once
+    expect(calls.filter((name) => name === 'decimals')).toHaveLength(1)
+  })
+
+  test('should encode a transfer with the amount in base units', async () => {
+    const { transaction } = await erc20.getTransferMPCPayloadAndTransaction({
+      from: owner,
+      to: spender,
+      amount: '1.5',
+    })
+
+    expect(transaction).toMatchObject({ to: tokenAddress, value: BigInt(0) })
+    expect(transaction.data).toBe(
+      token.encodeFunctionData('transfer', [spender, BigInt(1500000)])
+    )
+  })
+
+  test('should convert amounts to the token decimals', async () => {
+    const { transaction } = await erc20.getApproveMPCPayloadAndTransaction({
+      from: owner,
+      spender,
+      amount: { value: BigInt(15), decimals: 1 },
+    })
+
+    expect(transaction.data).toBe(
+      token.encodeFunctionData('approve', [spender, BigInt(1500000)])
+    )
+    await expect(
+      erc20.getApproveMPCPayloadAndTransaction({
+        from: owner,
+        spender,
+        amount: { value: BigInt(1), decimals: 7 },
+      })
+    ).rejects.toThrow("can't be expressed with 6 decimals")
+  })
+
+  test('should encode a transfer from the owner by the spender', async () => {
+    const { transaction } = await erc20.getTransferFromMPCPayloadAndTransaction(
+      { from: spender, owner, to: spender, amount: '0.000001' }
+    )
+
+    expect(transaction.data).toBe(
+      token.encodeFunctionData('transferFrom', [owner, spender, BigInt(1)])
+    )
+  })
+})
+
+describe('EVM NFTs', () => {
+  const owner = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+  const recipient = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+  const collectionAddress = '0xBC4CA0EdA7647A8aB7C2061c2E118A18a936f13D'
+  const collection = new ethers.Interface([
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function balanceOf(address account, uint256 id) view returns (uint256)',
+    'function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])',
+  ])
+  let evm: EVM
+
+  beforeEach(() => {
+    mockRpc({
+      eth_call: ([call]) => {
+        const { fragment, args } =
+          collection.parseTransaction({ data: call.data }) ?? {}
+        if (!fragment || !args) {
+          throw new RpcError('execution reverted', '0x')
+        }
+
+        // Batch balances are 10 times the token id, any other balance is 3
+        const result =
+          fragment.name === 'ownerOf'
+            ? [owner]
+            : fragment.name === 'balanceOfBatch'
+              ? [args[1].map((id: bigint) => id * BigInt(10))]
+              : [BigInt(3)]
+        return collection.encodeFunctionResult(fragment, result)
+      },
+    })
+    evm = new EVM({
+      providerUrl: 'http://localhost:8545',
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should read ERC-721 ownership and balances', async () => {
+    const erc721 = new ERC721({ evm, collectionAddress })
+
+    expect(await erc721.getOwner(1)).toBe(owner)
+    expect(await erc721.getBalance(owner)).toEqual({
+      value: BigInt(3),
+      decimals: 0,
+    })
+  })
+
+  test('should encode ERC-721 transfers and approvals', async () => {
+    const erc721 = new ERC721({ evm, collectionAddress })
+    const erc721Interface = new ethers.Interface([
+      'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+      'function approve(address to, uint256 tokenId)',
+      'function setApprovalForAll(address operator, bool approved)',
+    ])
+
+    const { transaction: transfer } =
+      await erc721.getSafeTransferFromMPCPayloadAndTransaction({
+        from: recipient,
+        owner,
+        to: recipient,
+        tokenId: 42,
+      })
+    const { transaction: approve } =
+      await erc721.getApproveMPCPayloadAndTransaction({
+        from: owner,
+        spender: recipient,
+        tokenId: 42,
+      })
+    const { transaction: approveAll } =
+      await erc721.getSetApprovalForAllMPCPayloadAndTransaction({
+        from: owner,
+        operator: recipient,
+        approved: true,
+      })
+
+    expect(transfer).toMatchObject({ to: collectionAddress, value: BigInt(0) })
+    // safeTransferFrom(address,address,uint256,bytes)
+    expect(transfer.data?.slice(0, 10)).toBe('0xb88d4fde')
+    expect(transfer.data).toBe(
+      erc721Interface.encodeFunctionData('safeTransferFrom', [
+        owner,
+        recipient,
+        42,
+        '0x',
+      ])
+    )
+    expect(approve.data).toBe(
+      erc721Interface.encodeFunctionData('approve', [recipient, 42])
+    )
+    expect(approveAll.data?.slice(0, 10)).toBe('0xa22cb465')
+    expect(approveAll.data).toBe(
+      erc721Interface.encodeFunctionData('setApprovalForAll', [recipient, true])
+    )
+  })
+
+  test('should read ERC-1155 balances', async () => {
+    const erc1155 = new ERC1155({ evm, collectionAddress })
+
+    expect(await erc1155.getBalance(owner, 1)).toEqual({
+      value: BigInt(3),
+      decimals: 0,
+    })
+    expect(await erc1155.getBalanceBatch(owner, [1, 2])).toEqual([
+      { value: BigInt(10), decimals: 0 },
+      { value: BigInt(20), decimals: 0 },
+    ])
+  })
+
+  test('should encode ERC-1155 single and batch transfers and approvals', async () => {
+    const erc1155 = new ERC1155({ evm, collectionAddress })
+    const erc1155Interface = new ethers.Interface([
+      'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+      'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+      'function setApprovalForAll(address operator, bool approved)',
+    ])
+
+    const { transaction: transfer } =
+      await erc1155.getSafeTransferFromMPCPayloadAndTransaction({
+        from: owner,
+        to: recipient,
+        id: 1,
+        amount: 5,
+        data: '0xbeef',
+      })
+    const { transaction: batchTransfer } =
+      await erc1155.getSafeBatchTransferFromMPCPayloadAndTransaction({
+        from: owner,
+        to: recipient,
+        ids: [1, 2],
+        amounts: [5, 6],
+      })
+    const { transaction: approveAll } =
+      await erc1155.getSetApprovalForAllMPCPayloadAndTransaction({
+        from: owner,
+        operator: recipient,
+        approved: false,
+      })
+
+    expect(transfer.data?.slice(0, 10)).toBe('0xf242432a')
+    expect(transfer.data).toBe(
+      erc1155Interface.encodeFunctionData('safeTransferFrom', [
+        owner,
+        recipient,
+        1,
+        5,
+        '0xbeef',
+      ])
+    )
+    expect(batchTransfer.data?.slice(0, 10)).toBe('0x2eb2c2d6')
+    expect(batchTransfer.data).toBe(
+      erc1155Interface.encodeFunctionData('safeBatchTransferFrom', [
+        owner,
+        recipient,
+        [1, 2],
+        [5, 6],
+        '0x',
+      ])
+    )
+    expect(approveAll.data).toBe(
+      erc1155Interface.encodeFunctionData('setApprovalForAll', [
+        recipient,
+        false,
+      ])
+    )
+    await expect(
+      erc1155.getSafeBatchTransferFromMPCPayloadAndTransaction({
+        from: owner,
+        to: recipient,
+        ids: [1, 2],
+        amounts: [5],
+      })
+    ).rejects.toThrow('ids and amounts must have the same length')
+  })
+})
+
+describe('EVM contract calls', () => {
+  const from = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+  const abi = [
+    'function withdraw(uint256 amount)',
+    'error InsufficientBalance(uint256 available, uint256 required)',
+  ]
+  const abiCoder = ethers.AbiCoder.defaultAbiCoder()
+  let evm: EVM
+
+  beforeEach(() => {
+    evm = new EVM({
+      providerUrl: 'http://localhost:8545',
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const withdraw = async (revertData: string): Promise<unknown> => {
+    const estimateGas = jest.fn(() => '0x5208')
+    mockRpc({
+      eth_call: () => {
+        throw new RpcError('execution reverted', revertData, 3)
+      },
+      eth_estimateGas: estimateGas,
+    })
+
+    const error = await evm
+      .getContractCallMPCPayloadAndTransaction({
+        from,
+        to: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+        abi,
+        functionName: 'withdraw',
+        args: [100],
+      })
+      .catch((e) => e)
+
+    // The reverting call is never prepared for signing
+    expect(estimateGas).not.toHaveBeenCalled()
+    expect(error).toBeInstanceOf(EVMCallRevertedError)
+    return error
+  }
+
+  test('should unwrap Error(string) reverts', async () => {
+    const data = ethers.concat([
+      '0x08c379a0',
+      abiCoder.encode(['string'], ['Withdrawals are paused']),
+    ])
+
+    expect(await withdraw(data)).toMatchObject({
+      reason: 'Withdrawals are paused',
+      data,
+      message: 'Contract call reverted: Withdrawals are paused',
+    })
+  })
+
+  test('should unwrap Panic(uint256) reverts', async () => {
+    const data = ethers.concat([
+      '0x4e487b71',
+      abiCoder.encode(['uint256'], [0x11]),
+    ])
+
+    expect(await withdraw(data)).toMatchObject({
+      reason: 'Panic due to OVERFLOW(17)',
+      data,
+    })
+  })
+
+  test('should decode custom errors with the contract ABI', async () => {
+    const data = new ethers.Interface(abi).encodeErrorResult(
+      'InsufficientBalance',
+      [10, 100]
+    )
+
+    expect(await withdraw(data)).toMatchObject({
+      reason: 'InsufficientBalance(10, 100)',
+      data,
+    })
+  })
+})
+
+describe('EVM transaction replacement', () => {
+  const from = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+  // Providers cache identical requests for a short time, each test gets its own
+  let evm: EVM
+  const original = {
+    chainId: BigInt(1),
+    nonce: 7,
+    to: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+    data: '0xb61d27f6',
+    value: BigInt(1000),
+    gasLimit: BigInt(50000),
+  }
+
+  beforeEach(() => {
+    evm = new EVM({
+      providerUrl: 'http://localhost:8545',
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should bump the gas price of a legacy transaction by 10%', async () => {
+    mockRpc()
+
+    const { transaction } = await evm.getSpeedUpMPCPayloadAndTransaction({
+      ...original,
+      type: 0,
+      gasPrice: gwei(10),
+    })
+
+    expect(transaction).toMatchObject({
+      ...original,
+      type: 0,
+      gasPrice: gwei(11),
+    })
+    expect(transaction.maxFeePerGas).toBeUndefined()
+  })
+
+  test('should use the market gas price when higher than the bump', async () => {
+    mockRpc({ eth_gasPrice: () => ethers.toQuantity(gwei(20)) })
+
+    const { transaction } = await evm.getSpeedUpMPCPayloadAndTransaction({
+      ...original,
+      type: 0,
+      gasPrice: gwei(10),
+    })
+
+    expect(transaction.gasPrice).toBe(gwei(20))
+  })
+
+  test('should bump both EIP-1559 fees, or use the market preset when higher', async () => {
+    mockRpc({ eth_feeHistory: () => feeHistory })
+
+    // The standard preset is a 24 gwei max fee with a 4 gwei priority fee
+    const { transaction } = await evm.getSpeedUpMPCPayloadAndTransaction({
+      ...original,
+      type: 2,
+      maxFeePerGas: gwei(30),
+      maxPriorityFeePerGas: gwei(3),
+    })
+
+    expect(transaction).toMatchObject({
+      ...original,
+      type: 2,
+      maxFeePerGas: gwei(33),
+      maxPriorityFeePerGas: gwei(4),
+    })
+    expect(transaction.gasPrice).toBeUndefined()
+  })
+
+  test('should reject a replacement above the max fee', async () => {
+    mockRpc({ eth_feeHistory: () => feeHistory })
+
+    await expect(
+      evm.getSpeedUpMPCPayloadAndTransaction(
+        {
+          ...original,
+          type: 2,
+          maxFeePerGas: gwei(30),
+          maxPriorityFeePerGas: gwei(3),
+        },
+        { maxFee: gwei(30) * original.gasLimit }
+      )
+    ).rejects.toThrow('too low to replace the transaction')
+  })
+
+  test('should cancel with a zero value transfer to self at the same nonce', async () => {
+    mockRpc({ eth_feeHistory: () => feeHistory })
+
+    const { transaction } = await evm.getCancelMPCPayloadAndTransaction(
+      {
+        ...original,
+        type: 2,
+        maxFeePerGas: gwei(30),
+        maxPriorityFeePerGas: gwei(3),
+      },
+      from
+    )
+
+    expect(transaction).toMatchObject({
+      type: 2,
+      chainId: BigInt(1),
+      nonce: 7,
+      to: from,
+      data: '0x',
+      value: BigInt(0),
+      gasLimit: BigInt(21000),
+      maxFeePerGas: gwei(33),
+      maxPriorityFeePerGas: gwei(4),
+    })
+  })
+
+  test('should cancel a pending transaction fetched by hash', async () => {
+    const hash = `0x${'cd'.repeat(32)}`
+    mockRpc({
+      eth_getTransactionByHash: () => ({
+        hash,
+        type: '0x0',
+        blockHash: null,
+        blockNumber: null,
+        transactionIndex: null,
+        from,
+        to: original.to,
+        nonce: '0x7',
+        gas: ethers.toQuantity(original.gasLimit),
+        gasPrice: ethers.toQuantity(gwei(10)),
+        input: original.data,
+        value: ethers.toQuantity(original.value),
+        chainId: '0x1',
+        v: '0x25',
+        r: `0x${'11'.repeat(32)}`,
+        s: `0x${'22'.repeat(32)}`,
+      }),
+    })
+
+    const { transaction } = await evm.getCancelMPCPayloadAndTransaction(
+      hash,
+      from
+    )
+
+    expect(transaction).toMatchObject({
+      type: 0,
+      nonce: 7,
+      to: from,
+      value: BigInt(0),
+      gasLimit: BigInt(21000),
+      gasPrice: gwei(11),
+    })
+  })
+})
+
+describe('EVM transaction confirmation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should report a reverted receipt as failed with its reason', async () => {
+    const hash = `0x${'ef'.repeat(32)}`
+    const from = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+    const to = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+    const call = jest.fn((params: any[]) => {
+      throw new RpcError(
+        'execution reverted',
+        ethers.concat([
+          ethers.id('Error(string)').substring(0, 10),
+          ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Paused']),
+        ]),
+        3
+      )
+    })
+    mockRpc({
+      eth_getTransactionReceipt: () => ({
+        transactionHash: hash,
+        transactionIndex: '0x0',
+        blockHash: `0x${'01'.repeat(32)}`,
+        blockNumber: '0xe',
+        from,
+        to,
+        contractAddress: null,
+        cumulativeGasUsed: '0x5208',
+        gasUsed: '0x5208',
+        effectiveGasPrice: ethers.toQuantity(gwei(2)),
+        logs: [],
+        logsBloom: `0x${'00'.repeat(256)}`,
+        type: '0x2',
+        status: '0x0',
+      }),
+      eth_getTransactionByHash: () => ({
+        hash,
+        type: '0x0',
+        blockHash: `0x${'01'.repeat(32)}`,
+        blockNumber: '0xe',
+        transactionIndex: '0x0',
+        from,
+        to,
+        nonce: '0x7',
+        gas: '0xc350',
+        gasPrice: ethers.toQuantity(gwei(2)),
+        input: '0xb61d27f6',
+        value: '0x0',
+        chainId: '0x1',
+        v: '0x25',
+        r: `0x${'11'.repeat(32)}`,
+        s: `0x${'22'.repeat(32)}`,
+      }),
+      eth_call: call,
+    })
+
+    const evm = new EVM({
+      providerUrl: 'http://localhost:8545',
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+    })
+
+    expect(await evm.waitForConfirmation(hash, { pollingInterval: 1 })).toEqual(
+      { status: 'failed', reason: 'Paused', blockNumber: 14 }
+    )
+    // The call is replayed on the state of the block of the receipt
+    expect(call.mock.calls[0][0][1]).toBe('0xe')
+  })
+})
+
+describe('EVM fees', () => {
+  const providerUrl = 'http://localhost:8545'
+  const transaction = {
+    from: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    value: BigInt(1),
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should compute the presets from the fee history percentiles', async () => {
+    mockRpc({ eth_feeHistory: () => feeHistory })
+
+    expect(await fetchEVMFeePresets(providerUrl)).toEqual({
+      slow: { maxFeePerGas: gwei(22), maxPriorityFeePerGas: gwei(2) },
+      standard: { maxFeePerGas: gwei(24), maxPriorityFeePerGas: gwei(4) },
+      fast: { maxFeePerGas: gwei(26), maxPriorityFeePerGas: gwei(6) },
+    })
+  })
+
+  test('should fallback to the fee data without fee history', async () => {
+    mockRpc({ eth_maxPriorityFeePerGas: () => '0x0' })
+
+    expect(await fetchEVMFeePresets(providerUrl)).toBeUndefined()
+    // A zero priority fee is valid, e.g. on chains without congestion
+    expect(await fetchEVMFeeProperties(providerUrl, transaction)).toEqual({
+      gasLimit: BigInt(23100),
+      maxFeePerGas: gwei(2),
+      maxPriorityFeePerGas: BigInt(0),
+      maxFee: gwei(2) * BigInt(23100),
+    })
+  })
+
+  test('should cap the max fee per gas to the max fee', async () => {
+    mockRpc({ eth_feeHistory: () => feeHistory })
+
+    expect(
+      await fetchEVMFeeProperties(providerUrl, transaction, {
+        strategy: 'fast',
+        maxFee: gwei(22) * BigInt(23100),
+      })
+    ).toEqual({
+      gasLimit: BigInt(23100),
+      maxFeePerGas: gwei(22),
+      maxPriorityFeePerGas: gwei(6),
+      maxFee: gwei(22) * BigInt(23100),
+    })
+    await expect(
+      fetchEVMFeeProperties(providerUrl, transaction, {
+        maxFee: gwei(9) * BigInt(23100),
+      })
+    ).rejects.toThrow('too low for the current network fees')
+  })
+
+  test('should apply the gas limit multiplier to the estimate', async () => {
+    mockRpc({ eth_feeHistory: () => feeHistory })
+
+    const { gasLimit, maxFee } = await fetchEVMFeeProperties(
+      providerUrl,
+      transaction,
+      { gasLimitMultiplier: 1.5 }
+    )
+
+    expect(gasLimit).toBe(BigInt(31500))
+    expect(maxFee).toBe(gwei(24) * BigInt(31500))
+    await expect(
+      fetchEVMFeeProperties(providerUrl, transaction, {
+        gasLimitMultiplier: 0.9,
+      })
+    ).rejects.toThrow('greater than or equal to 1')
+  })
+})
+
+describe('EVM failover provider', () => {
+  const address = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+
+  const signTransaction = (): ethers.Transaction => {
+    const transaction = ethers.Transaction.from({
+      type: 2,
+      chainId: 1,
+      nonce: 0,
+      to: address,
+      value: BigInt(1),
+      gasLimit: BigInt(21000),
+      maxFeePerGas: BigInt(2),
+      maxPriorityFeePerGas: BigInt(1),
+    })
+    transaction.signature = new SigningKey(`0x${'66'.repeat(32)}`).sign(
+      transaction.unsignedHash
+    )
+    return transaction
+  }
+
+  // Each endpoint answers every request with its own result, or fails
+  const mockEndpoints = (
+    results: Record<string, string | Error>
+  ): ReturnType<typeof jest.spyOn> => {
+    jest
+      .spyOn(ethers.JsonRpcProvider.prototype, '_detectNetwork')
+      .mockResolvedValue(ethers.Network.from(1))
+
+    return jest
+      .spyOn(ethers.JsonRpcProvider.prototype, '_perform')
+      .mockImplementation(async function (
+        this: ethers.JsonRpcProvider,
+        req: ethers.PerformActionRequest
+      ) {
+        if (req.method === 'getBlockNumber') {
+          return '0x10'
+        }
+
+        const result = results[this._getConnection().url]
+        if (result instanceof Error) {
+          throw result
+        }
+        return result
+      })
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should fail over to the next endpoint by priority', async () => {
+    mockEndpoints({
+      'http://primary': new Error('server error'),
+      'http://secondary': '0x2a',
+      'http://backup': '0x0',
+    })
+    const provider = new EVMFailoverProvider([
+      { url: 'http://backup', priority: 2 },
+      { url: 'http://primary', priority: 0 },
+      { url: 'http://secondary', priority: 1 },
+    ])
+
+    expect(await provider.getBalance(address)).toBe(BigInt(42))
+  })
+
+  test('should require a quorum for balance reads', async () => {
+    const perform = mockEndpoints({
+      'http://a': '0x2a',
+      'http://b': '0x2b',
+      'http://c': '0x2a',
+    })
+    const endpoints = [
+      { url: 'http://a' },
+      { url: 'http://b' },
+      { url: 'http://c' },
+    ]
+
+    expect(
+      await new EVMFailoverProvider(endpoints, { quorum: 2 }).getBalance(
+        address
+      )
+    ).toBe(BigInt(42))
+    await expect(
+      new EVMFailoverProvider(endpoints, { quorum: 3 }).getBalance(address)
+    ).rejects.toThrow('Quorum of 3 not reached')
+    expect(perform).toHaveBeenCalled()
+  })
+
+  test('should throw the error of every endpoint when they all fail', async () => {
+    mockRpc({
+      eth_getBalance: (_params, url) => {
+        throw new RpcError(`${url} is down`)
+      },
+    })
+    const provider = new EVMFailoverProvider([
+      { url: 'http://primary' },
+      { url: 'http://secondary' },
+    ])
+
+    const error = await provider.getBalance(address).catch((e) => e)
+
+    expect(error).toBeInstanceOf(EVMFailoverError)
+    expect((error as EVMFailoverError).errors.map(({ url }) => url)).toEqual([
+      'http://primary',
+      'http://secondary',
+    ])
+  })
+
+  test('should only skip endpoints failing for a quorum read on their own', async () => {
+    const calls: string[] = []
+    mockRpc({
+      eth_getBalance: (_params, url) => {
+        calls.push(url)
+        if (url === 'http://invalid') {
+          throw new RpcError('invalid argument', undefined, -32602)
+        }
+        if (url === 'http://down') {
+          throw new RpcError('internal error')
+        }
+        return '0x2a'
+      },
+    })
+    const provider = new EVMFailoverProvider(
+      [
+        { url: 'http://a' },
+        { url: 'http://b' },
+        { url: 'http://invalid' },
+        { url: 'http://down' },
+      ],
+      { quorum: 3 }
+    )
+
+    await expect(provider.getBalance(address)).rejects.toThrow(
+      'Quorum of 3 not reached'
+    )
+    expect(calls.sort()).toEqual([
+      'http://a',
+      'http://b',
+      'http://down',
+      'http://invalid',
+    ])
+
+    // The endpoint that is down is in cooldown, the one rejecting the params is still healthy
+    calls.length = 0
+    await expect(provider.getBalance(ethers.ZeroAddress)).rejects.toThrow(
+      'Quorum of 3 not reached'
+    )
+    expect(calls.sort()).toEqual(['http://a', 'http://b', 'http://invalid'])
+  })
+
+  test('should fail fast when fewer healthy endpoints than the quorum remain', async () => {
+    const calls: string[] = []
+    mockRpc({
+      eth_getBalance: (_params, url) => {
+        calls.push(url)
+        if (url === 'http://down') {
+          throw new RpcError('internal error')
+        }
+        return '0x2a'
+      },
+    })
+    const provider = new EVMFailoverProvider(
+      [{ url: 'http://a' }, { url: 'http://b' }, { url: 'http://down' }],
+      { quorum: 3 }
+    )
+
+    await expect(provider.getBalance(address)).rejects.toThrow(
+      'Quorum of 3 not reached'
+    )
+
+    calls.length = 0
+    await expect(provider.getBalance(ethers.ZeroAddress)).rejects.toThrow(
+      'Quorum of 3 not reachable, only 2 healthy endpoints'
+    )
+    expect(calls).toEqual([])
+  })
+
+  test('should detect the network once for concurrent first requests', async () => {
+    let chainIdCalls = 0
+    mockRpc({
+      eth_chainId: () => {
+        chainIdCalls++
+        return '0x1'
+      },
+      eth_getBalance: () => '0x2a',
+    })
+    const destroy = jest.spyOn(ethers.JsonRpcProvider.prototype, 'destroy')
+    const provider = new EVMFailoverProvider([
+      { url: 'http://a' },
+      { url: 'http://b' },
+    ])
+
+    expect(
+      await Promise.all([
+        provider.getBalance(address),
+        provider.getBalance(ethers.ZeroAddress),
+      ])
+    ).toEqual([BigInt(42), BigInt(42)])
+    expect(chainIdCalls).toBe(1)
+    // Each endpoint provider is replaced once, after the detection
+    expect(destroy).toHaveBeenCalledTimes(2)
+  })
+
+  test('should keep the provider of an unhealthy endpoint for the requests in flight', async () => {
+    mockRpc({
+      eth_getBalance: (_params, url) => {
+        if (url === 'http://down') {
+          throw new RpcError('internal error')
+        }
+        return '0x2a'
+      },
+    })
+    const provider = new EVMFailoverProvider(
+      [{ url: 'http://a' }, { url: 'http://b' }, { url: 'http://down' }],
+      { quorum: 2 }
+    )
+    await provider.getNetwork()
+    const destroy = jest.spyOn(ethers.JsonRpcProvider.prototype, 'destroy')
+
+    expect(await provider.getBalance(address)).toBe(BigInt(42))
+    expect(destroy).not.toHaveBeenCalled()
+  })
+
+  test('should broadcast to every healthy endpoint', async () => {
+    const transaction = signTransaction()
+
+    const broadcasts: string[] = []
+    mockRpc({
+      eth_sendRawTransaction: ([signedTransaction], url) => {
+        broadcasts.push(url)
+        expect(signedTransaction).toBe(transaction.serialized)
+        if (url === 'http://known') {
+          throw new RpcError('already known')
+        }
+        if (url === 'http://down') {
+          throw new RpcError('internal error')
+        }
+        return transaction.hash
+      },
+    })
+    const provider = new EVMFailoverProvider([
+      { url: 'http://a' },
+      { url: 'http://known' },
+      { url: 'http://down' },
+    ])
+
+    const response = await provider.broadcastTransaction(transaction.serialized)
+
+    expect(response.hash).toBe(transaction.hash)
+    expect(broadcasts.sort()).toEqual([
+      'http://a',
+      'http://down',
+      'http://known',
+    ])
+  })
+
+  test('should throw the broadcast error when every endpoint rejects the transaction', async () => {
+    mockRpc({
+      eth_sendRawTransaction: () => {
+        throw new RpcError('nonce too low')
+      },
+    })
+    const provider = new EVMFailoverProvider([
+      { url: 'http://a' },
+      { url: 'http://b' },
+    ])
+
+    await expect(
+      provider.broadcastTransaction(signTransaction().serialized)
+    ).rejects.toMatchObject({ code: 'NONCE_EXPIRED' })
+  })
+
+  test('should keep a plain provider for a single endpoint', () => {
+    const config = {
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+    } as const
+
+    expect(
+      new EVM({ ...config, providerUrl: 'http://a' }).getProvider()
+    ).not.toBeInstanceOf(EVMFailoverProvider)
+    expect(
+      new EVM({
+        ...config,
+        providers: [{ url: 'http://a' }, { url: 'http://b' }],
+      }).getProvider()
+    ).toBeInstanceOf(EVMFailoverProvider)
+  })
+})
+
+describe('EVM sign and send with a key pair', () => {
+  const from = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e'
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('should release the reserved nonce when signing fails', async () => {
+    mockRpc()
+    jest
+      .spyOn(ChainSignaturesContract, 'sign')
+      .mockRejectedValue(new Error('Signature request timed out'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const nonceManager = new EVMNonceManager()
+    const request: EVMRequest = {
+      transaction: { from, to: from, value: BigInt(1), type: 0 },
+      chainConfig: {
+        providerUrl: 'http://localhost:8545',
+        contract: 'v1.signer-prod.testnet',
+      },
+      nearAuthentication: { networkId: 'testnet', accountId: 'alice.testnet' },
+      derivationPath: 'ethereum,1',
+      nonceManager,
+    }
+
+    expect(
+      await signAndSendEVMTransaction(request, KeyPair.fromRandom('ed25519'))
+    ).toEqual({ success: false, errorMessage: 'Signature request timed out' })
+
+    const evm = new EVM({
+      providerUrl: 'http://localhost:8545',
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+      nonceManager,
+    })
+    const { transaction } = await evm.getMPCPayloadAndTransaction(
+      request.transaction
+    )
+
+    expect(transaction.nonce).toBe(5)
+  })
+
+  test('should only release reserved nonces that were never broadcast', async () => {
+    mockRpc({
+      eth_sendRawTransaction: () => {
+        throw new RpcError('request timed out')
+      },
+    })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const signingKey = new SigningKey(`0x${'42'.repeat(32)}`)
+    const nonceManager = new EVMNonceManager()
+    const evm = new EVM({
+      providerUrl: 'http://localhost:8545',
+      contract: 'v1.signer-prod.testnet',
+      nearNetworkId: 'testnet',
+      nonceManager,
+    })
+    const request = { from, to: from, value: BigInt(1), type: 0 as const }
+
+    // The broadcast may have reached a mempool, the nonce stays reserved
+    const broadcast = await evm.getMPCPayloadAndTransaction(request)
+    await expect(
+      evm.addSignatureAndBroadcast({
+        transaction: broadcast.transaction,
+        mpcSignatures: [
+          signWithKey(signingKey, broadcast.mpcPayloads[0].payload),
+        ],
+        publicKey: signingKey.compressedPublicKey,
+      })
+    ).rejects.toThrow('Failed to send signed transaction.')
+    evm.releaseNonce(broadcast.transaction)
+
+    // A nonce set by the caller, e.g. a replacement, isn't released
+    evm.releaseNonce(
+      (await evm.getMPCPayloadAndTransaction({ ...request, nonce: 6 }))
+        .transaction
+    )
+
+    // A signature of another key is rejected before broadcast
+    const rejected = await evm.getMPCPayloadAndTransaction(request)
+    await expect(
+      evm.addSignatureAndBroadcast({
+        transaction: rejected.transaction,
+        mpcSignatures: [
+          signWithKey(signingKey, rejected.mpcPayloads[0].payload),
+        ],
+        publicKey: new SigningKey(`0x${'43'.repeat(32)}`).compressedPublicKey,
+      })
+    ).rejects.toThrow(SignatureVerificationError)
+
+    expect(broadcast.transaction.nonce).toBe(5)
+    expect(rejected.transaction.nonce).toBe(6)
+    expect(
+      (await evm.getMPCPayloadAndTransaction(request)).transaction.nonce
+    ).toBe(6)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, test, expect } from '@jest/globals'
+import { SigningKey } from 'ethers'
+import { base_encode } from 'near-api-js/lib/utils/serialize'
+import {
+  buildKeyDerivationPath,
+  deriveChildPublicKey,
+  deriveEpsilon,
+  parseKeyDerivationPath,
+} from '../src/kdf'
+
+const SECP256K1_ORDER = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141'
+)
+
+const toNAJ = (uncompressedKey: string): string =>
+  `secp256k1:${base_encode(Buffer.from(uncompressedKey.substring(4), 'hex'))}`
+
+describe('Key derivation', () => {
+  const rootPrivateKey = `0x${'11'.repeat(32)}`
+  const rootPublicKey = toNAJ(new SigningKey(rootPrivateKey).publicKey)
+
+  test('should derive a deterministic epsilon', () => {
+    const epsilon = deriveEpsilon('signer.testnet', 'ethereum,1')
+
+    expect(epsilon).toHaveLength(64)
+    expect(deriveEpsilon('signer.testnet', 'ethereum,1')).toBe(epsilon)
+    expect(deriveEpsilon('signer.testnet', 'ethereum,2')).not.toBe(epsilon)
+    expect(deriveEpsilon('other.testnet', 'ethereum,1')).not.toBe(epsilon)
+  })
+
+  test('should derive the pinned epsilon and child key', () => {
+    // Pinned literals, any change to the epsilon derivation string or the path serialization breaks them
+    expect(deriveEpsilon('signer.testnet', 'ethereum,1')).toBe(
+      'b25615280cfc0e84b614f683364d7f863989bd21399f1cfca0b863cbabf61314'
+    )
+    expect(
+      deriveChildPublicKey({
+        rootPublicKey,
+        predecessor: 'signer.testnet',
+        path: 'ethereum,1',
+      })
+    ).toBe(
+      'secp256k1:4gdbGkcJyu6ZT9BtrtaCFF4YLDtMZBcucb5KY1j48Sts3SvgDfWVaddUcwRnFE4YprbF9yCvDK4R38Ua8Q658uaL'
+    )
+  })
+
+  test('should match the public key of the tweaked private key', () => {
+    const predecessor = 'signer.testnet'
+    const path = 'bitcoin,1'
+
+    const epsilon = BigInt(`0x${deriveEpsilon(predecessor, path)}`)
+    const childPrivateKey = (BigInt(rootPrivateKey) + epsilon) % SECP256K1_ORDER
+
+    const expected = toNAJ(
+      SigningKey.computePublicKey(
+        `0x${childPrivateKey.toString(16).padStart(64, '0')}`,
+        false
+      )
+    )
+
+    expect(deriveChildPublicKey({ rootPublicKey, predecessor, path })).toBe(
+      expected
+    )
+  })
+})
+
+describe('Key derivation path', () => {
+  test('should serialize a structured path with sorted keys', () => {
+    const path = buildKeyDerivationPath({
+      domain: 'example.com',
+      chain: 60,
+      account: 0,
+    })
+
+    expect(path).toBe('{"account":0,"chain":60,"domain":"example.com"}')
+    expect(parseKeyDerivationPath(path)).toEqual({
+      account: 0,
+      chain: 60,
+      domain: 'example.com',
+    })
+  })
+
+  test('should derive the same epsilon for a structured path and its string', () => {
+    const path = { chain: 0 as const, suffix: 'vault' }
+
+    expect(deriveEpsilon('signer.testnet', path)).toBe(
+      deriveEpsilon('signer.testnet', buildKeyDerivationPath(path))
+    )
+  })
+
+  test('should reject invalid or non canonical paths', () => {
+    expect(() => buildKeyDerivationPath({ chain: 60, account: -1 })).toThrow()
+    expect(() => parseKeyDerivationPath('{"domain":"a","chain":60}')).toThrow()
+    expect(() => parseKeyDerivationPath('{"chain":61}')).toThrow()
+    expect(() => parseKeyDerivationPath('ethereum,1')).toThrow()
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, test, expect } from '@jest/globals'
+import { SigningKey, ethers } from 'ethers'
+import {
+  type MPCSignature,
+  SignatureVerificationError,
+  verifyMPCSignatures,
+} from '../src/signature'
+
+const SECP256K1_ORDER = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141'
+)
+
+const toMPCSignature = (signature: ethers.Signature): MPCSignature => ({
+  big_r: {
+    affine_point: `0${2 + signature.yParity}${signature.r.substring(2)}`,
+  },
+  s: { scalar: signature.s.substring(2) },
+  recovery_id: signature.yParity,
+})
+
+describe('Signature verification', () => {
+  const signingKey = new SigningKey(`0x${'22'.repeat(32)}`)
+  const payload = ethers.randomBytes(32)
+  const signature = toMPCSignature(signingKey.sign(payload))
+
+  test('should accept a valid signature', () => {
+    expect(() => {
+      verifyMPCSignatures({
+        mpcPayloads: [{ index: 0, payload }],
+        mpcSignatures: [signature],
+        publicKey: signingKey.compressedPublicKey,
+      })
+    }).not.toThrow()
+  })
+
+  test('should reject a signature from another key', () => {
+    const otherKey = new SigningKey(`0x${'33'.repeat(32)}`)
+
+    expect(() => {
+      verifyMPCSignatures({
+        mpcPayloads: [{ index: 0, payload }],
+        mpcSignatures: [signature],
+        publicKey: otherKey.publicKey,
+      })
+    }).toThrow(SignatureVerificationError)
+  })
+
+  test('should reject a high-S signature and report its index', () => {
+    const highS = (SECP256K1_ORDER - BigInt(`0x${signature.s.scalar}`))
+      .toString(16)
+      .padStart(64, '0')
+
+    let error: unknown
+    try {
+      verifyMPCSignatures({
+        mpcPayloads: [
+          { index: 0, payload },
+          { index: 1, payload },
+        ],
+        mpcSignatures: [signature, { ...signature, s: { scalar: highS } }],
+        publicKey: signingKey.publicKey,
+      })
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(SignatureVerificationError)
+    expect((error as SignatureVerificationError).index).toBe(1)
+    expect((error as SignatureVerificationError).reason).toBe(
+      'high-S signature'
+    )
+  })
+})